@@ -4,74 +4,68 @@ import { Toggle } from "@base-ui/react/toggle";
 import {
   ArrowLeftIcon,
   ArrowRightIcon,
+  BookmarksSimpleIcon,
   CheckCircleIcon,
+  FilmReelIcon,
   FilmSlateIcon,
   GearSixIcon,
   GlobeIcon,
+  InfoIcon,
+  LinkIcon,
   MagnifyingGlassIcon,
   SmileySadIcon,
   SparkleIcon,
+  StopCircleIcon,
+  StopIcon,
   TelevisionIcon,
   ThumbsDownIcon,
   ThumbsUpIcon,
+  TranslateIcon,
+  UsersThreeIcon,
   WarningIcon,
 } from "@phosphor-icons/react";
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useRef, useState, type SetStateAction } from "react";
+import type {
+  ApiError,
+  FeedbackTitle,
+  Filters,
+  MediaChoice,
+  MediaType,
+  PickRequest,
+  PickResponse,
+  Provider,
+  RecPick,
+  RecommendRequest,
+  Region,
+  RoomTicket,
+  WatchlistItem,
+} from "../../shared/contract";
+import {
+  createEventDecoder,
+  PROTOCOL_VERSION,
+  type RecommendEvent,
+} from "../../shared/protocol";
+import { FilmStrip, MarqueeLights, pill } from "./decor";
+import { FiltersPanel } from "./FiltersPanel";
+import { LOCALES, useI18n } from "./i18n";
+import { castVote, createRoom, joinRoom, sendPreferences, storedTicket, storeTicket } from "./party";
+import { RecCard } from "./RecCard";
+import { matchShareRoute, SharedResults, shareUrl } from "./SharedResults";
+import {
+  fetchWatchlist,
+  removeFromWatchlist,
+  saveToWatchlist,
+  sendFeedback,
+  setWatched,
+  storedProfileId,
+  syncProfile,
+} from "./profile";
+import { TitleDrawer } from "./TitleDrawer";
+import { Watchlist } from "./Watchlist";
+import { PartyEntry, PartyRoom, useRoom } from "./WatchParty";
 
 // ── Constants ──────────────────────────────────────────────────────────────
-const COUNTRIES = [
-  { code: "US", name: "United States" },
-  { code: "GB", name: "United Kingdom" },
-  { code: "CA", name: "Canada" },
-  { code: "AU", name: "Australia" },
-  { code: "NZ", name: "New Zealand" },
-  { code: "IE", name: "Ireland" },
-  { code: "DE", name: "Germany" },
-  { code: "FR", name: "France" },
-  { code: "ES", name: "Spain" },
-  { code: "IT", name: "Italy" },
-  { code: "NL", name: "Netherlands" },
-  { code: "SE", name: "Sweden" },
-  { code: "NO", name: "Norway" },
-  { code: "DK", name: "Denmark" },
-  { code: "FI", name: "Finland" },
-  { code: "PL", name: "Poland" },
-  { code: "PT", name: "Portugal" },
-  { code: "BE", name: "Belgium" },
-  { code: "AT", name: "Austria" },
-  { code: "CH", name: "Switzerland" },
-  { code: "JP", name: "Japan" },
-  { code: "KR", name: "South Korea" },
-  { code: "IN", name: "India" },
-  { code: "BR", name: "Brazil" },
-  { code: "MX", name: "Mexico" },
-  { code: "AR", name: "Argentina" },
-  { code: "ZA", name: "South Africa" },
-  { code: "SG", name: "Singapore" },
-  { code: "HK", name: "Hong Kong" },
-];
-
-const GENRES = [
-  "Action",
-  "Adventure",
-  "Animation",
-  "Comedy",
-  "Crime",
-  "Documentary",
-  "Drama",
-  "Fantasy",
-  "Horror",
-  "Mystery",
-  "Romance",
-  "Sci-Fi",
-  "Thriller",
-  "Family",
-  "History",
-  "Music",
-  "War",
-  "Western",
-];
-
+// Sent as-is; the server maps these names to TMDB keywords (server/src/keywords.ts)
 const MOODS = [
   "Cozy & warm",
   "Dark & gritty",
@@ -99,208 +93,61 @@ const STYLES = [
 ];
 
 // ── Types ──────────────────────────────────────────────────────────────────
-type Step = "setup" | "type" | "preferences" | "results";
-type MediaType = "movie" | "tv";
+type Step = "setup" | "type" | "preferences" | "results" | "shared" | "watchlist" | "party";
 type SearchStatus =
   | "idle"
   | "searching"
   | "found"
   | "streaming"
   | "done"
-  | "error";
-
-interface Provider {
-  provider_id: number;
-  provider_name: string;
-  logo_path: string;
-  display_priority: number;
-}
+  | "error"
+  // The user stopped it; whatever arrived so far stays on screen
+  | "stopped";
 
 interface SearchState {
   status: SearchStatus;
   foundCount: number | null;
-  completion: string;
+  picks: RecPick[];
+  // Write-ups, index-aligned with picks
+  descriptions: string[];
   error: string | null;
+  // Permalink id of the finished result, if the server saved it
+  shareId: string | null;
+  // Server-side pool of the finished search, for swapping single cards
+  sessionId: string | null;
+  // Set when a model stage failed and the server's stand-in took over
+  fallback: boolean;
+  // Set when the server rate-limited us: epoch ms after which a retry is allowed
+  retryAt: number | null;
 }
 
-// ── Decorative components ──────────────────────────────────────────────────
-
-// Horizontal film strip with sprocket holes
-function FilmStrip({ className = "" }: { className?: string }) {
-  return (
-    <div
-      aria-hidden
-      className={`h-[14px] w-full shrink-0 ${className}`}
-      style={{
-        backgroundImage: `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='26' height='14'%3E%3Crect width='26' height='14' fill='%231A1612'/%3E%3Crect x='3' y='2' width='8' height='10' rx='1' fill='%230D0B08'/%3E%3Crect x='15' y='2' width='8' height='10' rx='1' fill='%230D0B08'/%3E%3C/svg%3E")`,
-        backgroundRepeat: "repeat-x",
-        backgroundSize: "26px 14px",
-      }}
-    />
-  );
+const IDLE_SEARCH: SearchState = {
+  status: "idle",
+  foundCount: null,
+  picks: [],
+  descriptions: [],
+  error: null,
+  shareId: null,
+  sessionId: null,
+  fallback: false,
+  retryAt: null,
+};
+
+// Movie and TV ids overlap on TMDB, so feedback is keyed by both
+function pickKey(pick: { id: number; mediaType: MediaType }): string {
+  return `${pick.mediaType}:${pick.id}`;
 }
 
-// Marquee bulb row
-function MarqueeLights({ className = "" }: { className?: string }) {
-  return (
-    <div className={`flex gap-[5px] overflow-hidden ${className}`} aria-hidden>
-      {Array.from({ length: 120 }).map((_, i) => (
-        <div
-          key={i}
-          className="w-[4px] h-[4px] rounded-full shrink-0"
-          style={{
-            background:
-              i % 5 === 0 ? "#F0DFA0" : i % 5 === 2 ? "#C9922A" : "#2E2418",
-            boxShadow:
-              i % 5 === 0
-                ? "0 0 5px 2px rgba(240,223,160,0.18)"
-                : i % 5 === 2
-                  ? "0 0 4px 1px rgba(201,146,42,0.12)"
-                  : "none",
-            opacity: i % 5 === 0 ? 0.95 : i % 5 === 2 ? 0.65 : 0.2,
-          }}
-        />
-      ))}
-    </div>
-  );
-}
-
-// Vertical film perforation strip (for card edges)
-function FilmPerfs({ count = 5 }: { count?: number }) {
-  return (
-    <div
-      className="flex flex-col justify-evenly items-center py-3 gap-0"
-      aria-hidden
-    >
-      {Array.from({ length: count }).map((_, i) => (
-        <div
-          key={i}
-          className="w-[9px] h-[7px] rounded-[1px] bg-[#0D0B08] border border-[#252018]"
-        />
-      ))}
-    </div>
-  );
-}
-
-// ── Recommendation renderer ────────────────────────────────────────────────
-const TMDB_IMG = "https://image.tmdb.org/t/p/w185";
-
-interface RecBlock {
-  key: string;
-  title: string;
-  meta: string;
-  posterPath?: string;
-  description?: string;
-}
-
-function parseBlocks(text: string): RecBlock[] {
-  const lines = text.split("\n");
-  const blocks: RecBlock[] = [];
-  let i = 0;
-  while (i < lines.length) {
-    const m = lines[i].match(/^\*\*(.+?)\*\*(.+?)(?:\s*\[img:([^\]]+)\])?\s*$/);
-    if (m) {
-      const block: RecBlock = {
-        key: `${i}`,
-        title: m[1].trim(),
-        meta: m[2].replace(/\[img:[^\]]+\]/g, "").trim(),
-        posterPath: m[3],
-      };
-      if (i + 1 < lines.length) {
-        const dm = lines[i + 1].match(/^_(.+?)_\s*(.*)$/);
-        if (dm) {
-          block.description = dm[2].trim();
-          i++;
-        }
-      }
-      blocks.push(block);
-    }
-    i++;
-  }
-  return blocks;
-}
-
-function RecCard({ block, isLiked, isDisliked, onLike, onDislike }: {
-  block: RecBlock
-  isLiked: boolean
-  isDisliked: boolean
-  onLike: () => void
-  onDislike: () => void
-}) {
-  return (
-    <div className="flex animate-slide-in border-b border-[#2E2620] last:border-b-0">
-      {/* Left perforations */}
-      <div className="w-5 shrink-0 bg-[#161210] border-r border-[#2E2620]">
-        <FilmPerfs count={6} />
-      </div>
-
-      {/* Content */}
-      <div className="flex-1 flex gap-4 p-4 bg-[#120F0C]">
-        {block.posterPath ? (
-          <div
-            className="relative shrink-0 self-start w-[72px]"
-            style={{ aspectRatio: "2/3" }}
-          >
-            <img
-              src={`${TMDB_IMG}${block.posterPath}`}
-              alt={block.title}
-              className="absolute inset-0 w-full h-full object-cover"
-            />
-            <div
-              className="absolute inset-0 pointer-events-none"
-              style={{ boxShadow: "inset 0 0 0 2px #C8281E" }}
-            />
-          </div>
-        ) : (
-          <div
-            className="shrink-0 self-start bg-[#1E1A16] border border-[#2E2620]"
-            style={{ width: "72px", aspectRatio: "2/3" }}
-          />
-        )}
-
-        <div className="flex-1 min-w-0 pt-0.5 flex flex-col">
-          <p className="font-display text-[1.45rem] leading-none tracking-wider text-[#F2ECD8] uppercase">
-            {block.title}
-          </p>
-          <p className="font-mono text-[9px] uppercase tracking-[0.18em] text-[#C9922A] mt-1.5">
-            {block.meta}
-          </p>
-          {block.description && (
-            <p className="font-sans text-[12px] text-[#A09080] mt-2 leading-relaxed">
-              {block.description}
-            </p>
-          )}
-
-          {/* Feedback */}
-          <div className="flex gap-4 mt-3 pt-2.5 border-t border-[#1E1A16]">
-            <button
-              onClick={onLike}
-              className={`flex items-center gap-1.5 font-mono text-[8px] uppercase tracking-[0.15em] transition-colors cursor-pointer ${
-                isLiked ? "text-[#C9922A]" : "text-[#4A3828] hover:text-[#8A7050]"
-              }`}
-            >
-              <ThumbsUpIcon size={11} weight={isLiked ? "fill" : "regular"} />
-              {isLiked ? "Liked" : "Like"}
-            </button>
-            <button
-              onClick={onDislike}
-              className={`flex items-center gap-1.5 font-mono text-[8px] uppercase tracking-[0.15em] transition-colors cursor-pointer ${
-                isDisliked ? "text-[#C8281E]" : "text-[#4A3828] hover:text-[#8A7050]"
-              }`}
-            >
-              <ThumbsDownIcon size={11} weight={isDisliked ? "fill" : "regular"} />
-              {isDisliked ? "Not for me" : "Not for me"}
-            </button>
-          </div>
-        </div>
-      </div>
-
-      {/* Right perforations */}
-      <div className="w-5 shrink-0 bg-[#161210] border-l border-[#2E2620]">
-        <FilmPerfs count={6} />
-      </div>
-    </div>
-  );
+// ── Rate-limit countdown ───────────────────────────────────────────────────
+function useSecondsUntil(until: number | null): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (until === null) return;
+    setNow(Date.now());
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, [until]);
+  return until === null ? 0 : Math.max(0, Math.ceil((until - now) / 1000));
 }
 
 // ── Section label ──────────────────────────────────────────────────────────
@@ -335,9 +182,18 @@ function PrefCard({
 
 // ── Main App ───────────────────────────────────────────────────────────────
 export default function App() {
+  const { locale, setLocale, t, tag, regionName } = useI18n();
+
   // ── Step
+  const [sharedId, setSharedId] = useState<string | null>(() =>
+    matchShareRoute(window.location.pathname),
+  );
   const [step, setStep] = useState<Step>(() =>
-    localStorage.getItem("stw_country") ? "type" : "setup",
+    sharedId
+      ? "shared"
+      : localStorage.getItem("stw_country")
+        ? "type"
+        : "setup",
   );
 
   // ── Setup (persisted)
@@ -356,27 +212,49 @@ export default function App() {
     },
   );
   const [providersLoading, setProvidersLoading] = useState(false);
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [profileId, setProfileId] = useState<string | null>(storedProfileId);
 
   // ── Type
-  const [mediaType, setMediaType] = useState<MediaType>("movie");
+  const [mediaType, setMediaType] = useState<MediaChoice>("movie");
 
   // ── Preferences
+  const [genres, setGenres] = useState<string[]>([]);
+  const [genresLoading, setGenresLoading] = useState(false);
   const [selectedGenres, setSelectedGenres] = useState<Set<string>>(new Set());
   const [selectedMoods, setSelectedMoods] = useState<Set<string>>(new Set());
   const [selectedStyles, setSelectedStyles] = useState<Set<string>>(new Set());
   const [description, setDescription] = useState("");
-
-  // ── Feedback (persists across refinements)
-  const [likedTitles, setLikedTitles] = useState<Set<string>>(new Set());
-  const [dislikedTitles, setDislikedTitles] = useState<Set<string>>(new Set());
+  const [filters, setFilters] = useState<Filters>({});
+
+  // ── Feedback (persists across refinements), keyed by pickKey
+  const [likedPicks, setLikedPicks] = useState<Map<string, FeedbackTitle>>(new Map());
+  const [dislikedPicks, setDislikedPicks] = useState<Map<string, FeedbackTitle>>(new Map());
+
+  // ── Watchlist, and the step to return to from it
+  const [watchlist, setWatchlist] = useState<WatchlistItem[]>([]);
+  const [watchlistLoading, setWatchlistLoading] = useState(false);
+  const [watchlistError, setWatchlistError] = useState<string | null>(null);
+  const [watchlistFrom, setWatchlistFrom] = useState<Step>("type");
+
+  // ── Detail drawer
+  const [detailPick, setDetailPick] = useState<RecPick | null>(null);
+
+  // ── Watch party
+  const [party, setParty] = useState<RoomTicket | null>(storedTicket);
+  const [partyBusy, setPartyBusy] = useState(false);
+  const [partyError, setPartyError] = useState<string | null>(null);
+  // Set while the results view shows the room's search rather than a solo one
+  const [partySearch, setPartySearch] = useState(false);
+  const { room, error: roomError, setRoom } = useRoom(party, step === "party", () =>
+    leaveParty(t("party.gone")),
+  );
+  // In a room, chips and the drawer follow the room's settings so every
+  // participant's genre names resolve the same way
+  const genreLocale = party && room ? room.locale : locale;
 
   // ── Search state
-  const [searchState, setSearchState] = useState<SearchState>({
-    status: "idle",
-    foundCount: null,
-    completion: "",
-    error: null,
-  });
+  const [searchState, setSearchState] = useState<SearchState>(IDLE_SEARCH);
 
   const resultsRef = useRef<HTMLDivElement>(null);
   const descRef = useRef<HTMLTextAreaElement>(null);
@@ -392,6 +270,18 @@ export default function App() {
     );
   }, [selectedProviders]);
 
+  // Mirror settings to the server profile; debounced so provider toggles batch up
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      void syncProfile({
+        country,
+        locale,
+        providerIds: [...selectedProviders],
+      }).then((id) => id && setProfileId(id));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [country, locale, selectedProviders]);
+
   const prevCountryRef = useRef<string | null>(null);
   useEffect(() => {
     if (prevCountryRef.current !== null && prevCountryRef.current !== country) {
@@ -409,6 +299,38 @@ export default function App() {
       .finally(() => setProvidersLoading(false));
   }, [country]);
 
+  // Saved titles, so cards know what's already on the watchlist
+  useEffect(() => {
+    loadWatchlist();
+  }, [profileId]);
+
+  useEffect(() => {
+    fetch(`/api/regions?locale=${locale}`)
+      .then((r) => r.json())
+      .then((d: unknown) => setRegions(Array.isArray(d) ? d : []))
+      .catch(() => setRegions([]));
+  }, [locale]);
+
+  // Genre names differ per media type and language, so selections that the
+  // new list doesn't have are dropped
+  useEffect(() => {
+    let cancelled = false;
+    setGenresLoading(true);
+    fetch(`/api/genres?mediaType=${mediaType}&locale=${genreLocale}`)
+      .then((r) => r.json())
+      .then((d: unknown) => {
+        if (cancelled) return;
+        const names = Array.isArray(d) ? (d as string[]) : [];
+        setGenres(names);
+        setSelectedGenres((prev) => new Set([...prev].filter((g) => names.includes(g))));
+      })
+      .catch(() => !cancelled && setGenres([]))
+      .finally(() => !cancelled && setGenresLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [mediaType, genreLocale]);
+
   useEffect(() => {
     if (step === "results") {
       setTimeout(
@@ -444,116 +366,440 @@ export default function App() {
     return next;
   }
 
-  function toggleFeedback(title: string, type: "like" | "dislike") {
+  function toggleFeedback(pick: RecPick, type: "like" | "dislike") {
+    const key = pickKey(pick);
+    const entry: FeedbackTitle = {
+      id: pick.id,
+      mediaType: pick.mediaType,
+      title: pick.title,
+      year: pick.year,
+    };
+    const active =
+      type === "like" ? likedPicks.has(key) : dislikedPicks.has(key);
+    const toggle = (prev: Map<string, FeedbackTitle>) => {
+      const next = new Map(prev);
+      next.has(key) ? next.delete(key) : next.set(key, entry);
+      return next;
+    };
+    const remove = (prev: Map<string, FeedbackTitle>) => {
+      const next = new Map(prev);
+      next.delete(key);
+      return next;
+    };
     if (type === "like") {
-      setLikedTitles((prev) => toggleSet(prev, title));
-      setDislikedTitles((prev) => { const n = new Set(prev); n.delete(title); return n; });
+      setLikedPicks(toggle);
+      setDislikedPicks(remove);
     } else {
-      setDislikedTitles((prev) => toggleSet(prev, title));
-      setLikedTitles((prev) => { const n = new Set(prev); n.delete(title); return n; });
+      setDislikedPicks(toggle);
+      setLikedPicks(remove);
+    }
+    if (profileId) {
+      sendFeedback(profileId, {
+        title: pick.title,
+        tmdbId: pick.id,
+        mediaType: pick.mediaType,
+        year: pick.year,
+        verdict: active ? "clear" : type,
+      });
     }
   }
 
+  // ── Watchlist
+  function loadWatchlist() {
+    if (!profileId) return;
+    setWatchlistLoading(true);
+    fetchWatchlist(profileId)
+      .then((items) => {
+        setWatchlist(items);
+        setWatchlistError(null);
+      })
+      .catch((e: unknown) =>
+        setWatchlistError(e instanceof Error ? e.message : t("app.unknownError")),
+      )
+      .finally(() => setWatchlistLoading(false));
+  }
+
+  function openWatchlist() {
+    if (step !== "watchlist") setWatchlistFrom(step);
+    setStep("watchlist");
+    loadWatchlist();
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  function toggleSaved(pick: RecPick) {
+    if (!profileId) return;
+    const key = pickKey(pick);
+    const saved = watchlist.find((item) => pickKey(item) === key);
+    if (saved) {
+      setWatchlist((prev) => prev.filter((item) => pickKey(item) !== key));
+      removeFromWatchlist(profileId, pick).catch(() =>
+        setWatchlist((prev) => [saved, ...prev]),
+      );
+      return;
+    }
+    saveToWatchlist(profileId, {
+      id: pick.id,
+      mediaType: pick.mediaType,
+      title: pick.title,
+      year: pick.year,
+      posterPath: pick.posterPath,
+    })
+      .then((item) =>
+        setWatchlist((prev) => [item, ...prev.filter((i) => pickKey(i) !== key)]),
+      )
+      .catch((e: unknown) =>
+        setWatchlistError(e instanceof Error ? e.message : t("app.unknownError")),
+      );
+  }
+
+  // Optimistic; the server's copy replaces it, or the old one comes back on failure
+  function toggleWatched(item: WatchlistItem) {
+    if (!profileId) return;
+    const key = pickKey(item);
+    const replace = (next: WatchlistItem) =>
+      setWatchlist((prev) => prev.map((i) => (pickKey(i) === key ? next : i)));
+    const watched = item.watchedAt === null;
+    replace({ ...item, watchedAt: watched ? Date.now() : null });
+    setWatched(profileId, item, watched).then(replace, () => replace(item));
+  }
+
+  function removeSaved(item: WatchlistItem) {
+    if (!profileId) return;
+    const key = pickKey(item);
+    setWatchlist((prev) => prev.filter((i) => pickKey(i) !== key));
+    removeFromWatchlist(profileId, item).catch(() =>
+      setWatchlist((prev) => [item, ...prev]),
+    );
+  }
+
+  // ── Watch party
+  function enterParty(ticket: RoomTicket) {
+    storeTicket(ticket);
+    setParty(ticket);
+    setPartyError(null);
+  }
+
+  function hostParty(name: string, type: MediaChoice) {
+    setPartyBusy(true);
+    createRoom({ name, country, locale, mediaType: type })
+      .then(({ participantId, room }) => {
+        enterParty({ code: room.code, participantId });
+        setRoom(room);
+      })
+      .catch((e: unknown) =>
+        setPartyError(e instanceof Error ? e.message : t("app.unknownError")),
+      )
+      .finally(() => setPartyBusy(false));
+  }
+
+  function joinParty(name: string, code: string) {
+    setPartyBusy(true);
+    joinRoom(code, name)
+      .then(({ participantId, room }) => {
+        enterParty({ code: room.code, participantId });
+        setRoom(room);
+        setMediaType(room.mediaType);
+        setStep("preferences");
+      })
+      .catch((e: unknown) =>
+        setPartyError(e instanceof Error ? e.message : t("app.unknownError")),
+      )
+      .finally(() => setPartyBusy(false));
+  }
+
+  function leaveParty(reason: string | null = null) {
+    storeTicket(null);
+    setParty(null);
+    setPartySearch(false);
+    setPartyError(reason);
+  }
+
+  function editPartyPreferences() {
+    if (room) setMediaType(room.mediaType);
+    setStep("preferences");
+  }
+
+  function submitPartyPreferences() {
+    if (!party) return;
+    setPartyBusy(true);
+    sendPreferences(party, {
+      providerIds: [...selectedProviders],
+      genres: [...selectedGenres],
+      moods: [...selectedMoods],
+      styles: [...selectedStyles],
+      description,
+      disliked: [...dislikedPicks.values()],
+      profileId: profileId ?? undefined,
+    })
+      .then((r) => {
+        setRoom(r);
+        setPartyError(null);
+        setStep("party");
+        window.scrollTo({ top: 0, behavior: "smooth" });
+      })
+      .catch((e: unknown) =>
+        setPartyError(e instanceof Error ? e.message : t("app.unknownError")),
+      )
+      .finally(() => setPartyBusy(false));
+  }
+
+  function votePick(index: number | null) {
+    if (!party) return;
+    castVote(party, index)
+      .then(setRoom)
+      .catch((e: unknown) =>
+        setPartyError(e instanceof Error ? e.message : t("app.unknownError")),
+      );
+  }
+
   // ── Streaming fetch
-  async function handleSubmit() {
-    setSearchState({
-      status: "searching",
-      foundCount: null,
-      completion: "",
-      error: null,
-    });
+  // Only the latest search may touch searchState: starting a new one aborts
+  // the previous request, and late events from it are dropped
+  const searchAbort = useRef<AbortController | null>(null);
+  useEffect(() => () => searchAbort.current?.abort(), []);
+
+  function stopSearch() {
+    searchAbort.current?.abort();
+    searchAbort.current = null;
+    setSearchState((prev) => ({ ...prev, status: "stopped" }));
+  }
+
+  // With a room ticket the server runs the room's merged search instead;
+  // `moreLike` anchors the search on one title
+  async function handleSubmit({
+    room: roomTicket,
+    moreLike,
+  }: { room?: RoomTicket; moreLike?: FeedbackTitle } = {}) {
+    searchAbort.current?.abort();
+    const controller = new AbortController();
+    searchAbort.current = controller;
+    const update = (next: SetStateAction<SearchState>) => {
+      if (searchAbort.current === controller) setSearchState(next);
+    };
+
+    setSearchState({ ...IDLE_SEARCH, status: "searching" });
+    setPartySearch(roomTicket !== undefined);
+    setSwapping(null);
+    setSwapError(null);
+    setSwapRetryAt(null);
     setStep("results");
 
-    try {
-      const res = await fetch("/api/recommend", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
+    const request: RecommendRequest = roomTicket
+      ? { room: roomTicket }
+      : {
           country,
+          locale,
           providerIds: [...selectedProviders],
           mediaType,
           genres: [...selectedGenres],
           moods: [...selectedMoods],
           styles: [...selectedStyles],
           description,
-          liked: [...likedTitles],
-          disliked: [...dislikedTitles],
-        }),
+          filters,
+          liked: [...likedPicks.values()],
+          disliked: [...dislikedPicks.values()],
+          profileId: profileId ?? undefined,
+          moreLike,
+        };
+
+    try {
+      const res = await fetch("/api/recommend", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+        signal: controller.signal,
       });
 
+      if (res.status === 429) {
+        const retryAfter = Number(res.headers.get("Retry-After")) || 60;
+        update((prev) => ({
+          ...prev,
+          status: "error",
+          error: t("results.tooManyRequests"),
+          retryAt: Date.now() + retryAfter * 1000,
+        }));
+        return;
+      }
+
       if (!res.ok) {
         let msg = `HTTP ${res.status}`;
         try {
-          const d = (await res.json()) as { error?: string };
+          const d = (await res.json()) as ApiError;
           msg = d.error ?? msg;
+          if (d.fields) {
+            msg += ` (${Object.entries(d.fields)
+              .map(([field, issue]) => `${field}: ${issue}`)
+              .join("; ")})`;
+          }
         } catch {
           /* noop */
         }
         throw new Error(msg);
       }
 
-      if (!res.body) throw new Error("No response body");
+      if (!res.body) throw new Error(t("results.noBody"));
 
       const reader = res.body.getReader();
       const decoder = new TextDecoder();
-      let buffer = "";
-      let foundCount: number | null = null;
-      let textStart: number | null = null;
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-
-        if (foundCount === null) {
-          const m = buffer.match(/\[FOUND:(\d+)\]\n/);
-          if (m && m.index !== undefined) {
-            foundCount = parseInt(m[1]);
-            textStart = m.index + m[0].length;
-            setSearchState((prev) => ({
+      let streamError: string | null = null;
+      let finished = false;
+
+      const push = createEventDecoder((event: RecommendEvent) => {
+        switch (event.type) {
+          case "start":
+            if (event.version !== PROTOCOL_VERSION) {
+              streamError = t("results.outdated");
+            }
+            break;
+          case "phase":
+            if (event.phase === "found") {
+              update((prev) => ({
+                ...prev,
+                status: "found",
+                foundCount: event.count,
+              }));
+            }
+            break;
+          case "picks":
+            update((prev) => ({
               ...prev,
-              status: "found",
-              foundCount,
+              status: "streaming",
+              picks: event.picks,
+              descriptions: event.picks.map(() => ""),
             }));
-          }
-        }
-
-        if (textStart !== null) {
-          const cleanText = buffer.slice(textStart);
-          if (cleanText.trim()) {
-            setSearchState((prev) => ({
+            break;
+          case "delta":
+            update((prev) => ({
               ...prev,
-              status: "streaming",
-              completion: cleanText,
+              descriptions: prev.descriptions.map((d, i) =>
+                i === event.index ? d + event.text : d,
+              ),
             }));
-          }
+            break;
+          case "fallback":
+            update((prev) => ({ ...prev, fallback: true }));
+            break;
+          case "error":
+            streamError = event.message;
+            break;
+          case "done":
+            finished = true;
+            update((prev) => ({
+              ...prev,
+              shareId: event.shareId ?? null,
+              sessionId: event.sessionId ?? null,
+            }));
+            break;
         }
+      });
+
+      while (!streamError) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        push(decoder.decode(value, { stream: true }));
+      }
+
+      if (streamError) {
+        void reader.cancel();
+        throw new Error(streamError);
       }
+      if (!finished) throw new Error(t("results.closedEarly"));
 
-      setSearchState((prev) => ({ ...prev, status: "done" }));
+      update((prev) => ({ ...prev, status: "done" }));
     } catch (e) {
-      setSearchState((prev) => ({
+      // A stopped or superseded search ends quietly
+      if (controller.signal.aborted) return;
+      update((prev) => ({
         ...prev,
         status: "error",
-        error: e instanceof Error ? e.message : "Unknown error",
+        error: e instanceof Error ? e.message : t("app.unknownError"),
       }));
     }
   }
 
+  // ── Single-card actions
+  const [swapping, setSwapping] = useState<number | null>(null);
+  const [swapError, setSwapError] = useState<string | null>(null);
+  // Set when the server rate-limited a swap: epoch ms after which swapping is allowed
+  const [swapRetryAt, setSwapRetryAt] = useState<number | null>(null);
+
+  async function swapPick(index: number) {
+    const { sessionId, picks } = searchState;
+    if (!sessionId) return;
+    setSwapping(index);
+    setSwapError(null);
+    setSwapRetryAt(null);
+    try {
+      const body: PickRequest = {
+        sessionId,
+        exclude: picks.map(({ id, mediaType }) => ({ id, mediaType })),
+      };
+      const res = await fetch("/api/recommend/pick", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (res.status === 429) {
+        const retryAfter = Number(res.headers.get("Retry-After")) || 60;
+        setSwapRetryAt(Date.now() + retryAfter * 1000);
+        return;
+      }
+      if (!res.ok) {
+        let msg = `HTTP ${res.status}`;
+        try {
+          msg = ((await res.json()) as ApiError).error ?? msg;
+        } catch {
+          /* noop */
+        }
+        throw new Error(msg);
+      }
+      const { pick, description } = (await res.json()) as PickResponse;
+      // A search started meanwhile has replaced these cards
+      setSearchState((prev) => prev.sessionId !== sessionId ? prev : {
+        ...prev,
+        picks: prev.picks.map((p, i) => (i === index ? pick : p)),
+        descriptions: prev.descriptions.map((d, i) => (i === index ? description : d)),
+      });
+    } catch (e) {
+      setSwapError(e instanceof Error ? e.message : t("app.unknownError"));
+    } finally {
+      setSwapping(null);
+    }
+  }
+
+  function moreLikeThis(pick: RecPick) {
+    window.scrollTo({ top: 0, behavior: "smooth" });
+    void handleSubmit({
+      moreLike: { id: pick.id, mediaType: pick.mediaType, title: pick.title, year: pick.year },
+    });
+  }
+
+  const [copied, setCopied] = useState(false);
+  function copyShareLink(id: string) {
+    void navigator.clipboard.writeText(shareUrl(id)).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  }
+
+  function leaveShared() {
+    window.history.pushState(null, "", "/");
+    setSharedId(null);
+    setStep(localStorage.getItem("stw_country") ? "type" : "setup");
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
   function startOver() {
     setSelectedGenres(new Set());
     setSelectedMoods(new Set());
     setSelectedStyles(new Set());
     setDescription("");
-    setLikedTitles(new Set());
-    setDislikedTitles(new Set());
-    setSearchState({
-      status: "idle",
-      foundCount: null,
-      completion: "",
-      error: null,
-    });
+    setFilters({});
+    setLikedPicks(new Map());
+    setDislikedPicks(new Map());
+    searchAbort.current?.abort();
+    searchAbort.current = null;
+    setSearchState(IDLE_SEARCH);
     setStep("type");
     window.scrollTo({ top: 0, behavior: "smooth" });
   }
@@ -561,18 +807,15 @@ export default function App() {
   const {
     status: ss,
     foundCount,
-    completion,
+    picks,
+    descriptions,
     error: searchError,
   } = searchState;
-  const recBlocks = parseBlocks(completion);
   const isActive = ss === "searching" || ss === "found" || ss === "streaming";
-
-  // Shared pill classes
-  const pill =
-    "px-3 py-1.5 border font-mono text-[10px] uppercase tracking-[0.12em] cursor-pointer select-none transition-all duration-150 " +
-    "bg-[#120F0C] border-[#2E2620] text-[#9A8870] " +
-    "hover:border-[#6A5840] hover:text-[#C0A880] " +
-    "data-[pressed]:bg-[#C8281E] data-[pressed]:border-[#C8281E] data-[pressed]:text-[#F2ECD8]";
+  const retryIn = useSecondsUntil(searchState.retryAt);
+  const rateLimited = searchState.retryAt !== null && retryIn > 0;
+  const swapRetryIn = useSecondsUntil(swapRetryAt);
+  const swapLimited = swapRetryAt !== null && swapRetryIn > 0;
 
   return (
     <div className="min-h-screen bg-[#0D0B08] text-[#F2ECD8] font-sans antialiased">
@@ -616,22 +859,48 @@ export default function App() {
                 to Watch
               </h1>
               <p className="font-serif italic text-[13px] text-[#A89070] mt-2 leading-snug">
-                presented for your viewing pleasure
+                {t("app.tagline")}
               </p>
             </div>
 
             {/* Step indicator + settings */}
             <div className="flex flex-col items-end gap-2.5 shrink-0 pb-0.5">
-              {step !== "setup" && (
-                <button
-                  onClick={() => setStep("setup")}
-                  className="p-2 border border-[#2E2620] text-[#A89070] hover:border-[#4A3828] hover:text-[#C0A880] transition-colors"
-                  title="Settings"
-                >
-                  <GearSixIcon size={13} />
-                </button>
+              {step !== "setup" && step !== "shared" && (
+                <div className="flex gap-1.5">
+                  {profileId && (
+                    <button
+                      onClick={openWatchlist}
+                      className="relative p-2 border border-[#2E2620] text-[#A89070] hover:border-[#4A3828] hover:text-[#C0A880] transition-colors"
+                      title={t("watchlist.open")}
+                    >
+                      <BookmarksSimpleIcon size={13} />
+                      {watchlist.some((i) => i.watchedAt === null) && (
+                        <span className="absolute -top-1.5 -right-1.5 px-1 bg-[#C8281E] font-mono text-[8px] leading-[14px] text-[#F2ECD8]">
+                          {watchlist.filter((i) => i.watchedAt === null).length}
+                        </span>
+                      )}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setStep("party")}
+                    className="relative p-2 border border-[#2E2620] text-[#A89070] hover:border-[#4A3828] hover:text-[#C0A880] transition-colors"
+                    title={t("party.open")}
+                  >
+                    <UsersThreeIcon size={13} />
+                    {party && (
+                      <span className="absolute -top-1 -right-1 w-2 h-2 rounded-full bg-[#C9922A]" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => setStep("setup")}
+                    className="p-2 border border-[#2E2620] text-[#A89070] hover:border-[#4A3828] hover:text-[#C0A880] transition-colors"
+                    title={t("app.settings")}
+                  >
+                    <GearSixIcon size={13} />
+                  </button>
+                </div>
               )}
-              {step !== "setup" && (
+              {step !== "setup" && step !== "shared" && (
                 <div className="flex gap-[3px] items-center">
                   {(["type", "preferences", "results"] as Step[]).map((s) => {
                     const steps = ["type", "preferences", "results"];
@@ -663,13 +932,60 @@ export default function App() {
         </header>
 
         <div className="px-5">
+          {/* ═══════════════════════════════════════════
+              SHARED (read-only permalink)
+          ═══════════════════════════════════════════ */}
+          {step === "shared" && sharedId && (
+            <SharedResults id={sharedId} onExit={leaveShared} />
+          )}
+
+          {/* ═══════════════════════════════════════════
+              WATCHLIST
+          ═══════════════════════════════════════════ */}
+          {step === "party" &&
+            (party ? (
+              <PartyRoom
+                room={room}
+                error={roomError ?? partyError}
+                onEditPreferences={editPartyPreferences}
+                onStart={() => {
+                  void handleSubmit({ room: party });
+                }}
+                onVote={votePick}
+                onDetails={setDetailPick}
+                onLeave={() => leaveParty()}
+                onBack={() => setStep("type")}
+              />
+            ) : (
+              <PartyEntry
+                mediaType={mediaType}
+                busy={partyBusy}
+                error={partyError}
+                onHost={hostParty}
+                onJoin={joinParty}
+                onBack={() => setStep("type")}
+              />
+            ))}
+
+          {step === "watchlist" && (
+            <Watchlist
+              items={watchlist}
+              loading={watchlistLoading}
+              error={watchlistError}
+              onToggleWatched={toggleWatched}
+              onRemove={removeSaved}
+              onDetails={(item) => setDetailPick({ ...item, vibe: "" })}
+              onBack={() => setStep(watchlistFrom)}
+            />
+          )}
+
           {/* ═══════════════════════════════════════════
               SETUP
           ═══════════════════════════════════════════ */}
           {step === "setup" && (
             <div className="animate-slide-up">
               <div className="mb-7">
-                <SectionLabel>Lobby</SectionLabel>
+                <SectionLabel>{t("setup.section")}</SectionLabel>
                 <h2
                   className="font-display leading-none text-[#F2ECD8]"
                   style={{
@@ -677,10 +993,10 @@ export default function App() {
                     letterSpacing: "0.04em",
                   }}
                 >
-                  Set Your Location
+                  {t("setup.title")}
                 </h2>
                 <p className="font-serif italic text-[13px] text-[#A89070] mt-1.5">
-                  We'll find what's playing near you.
+                  {t("setup.subtitle")}
                 </p>
               </div>
 
@@ -693,7 +1009,7 @@ export default function App() {
                     <div className="flex items-center gap-2 mb-3">
                       <GlobeIcon size={10} className="text-[#8A7050]" />
                       <span className="font-mono text-[9px] uppercase tracking-[0.3em] text-[#8A7050]">
-                        Region
+                        {t("setup.region")}
                       </span>
                     </div>
                     <div className="relative inline-block">
@@ -704,9 +1020,41 @@ export default function App() {
                           pl-3 pr-8 py-2 font-mono text-[12px] text-[#B0A080] tracking-wider
                           focus:outline-none focus:border-[#C8281E50] transition-colors cursor-pointer"
                       >
-                        {COUNTRIES.map((c) => (
-                          <option key={c.code} value={c.code}>
-                            {c.name}
+                        {/* The saved country stays selectable while the list loads */}
+                        {!regions.some((r) => r.code === country) && (
+                          <option value={country}>{regionName(country)}</option>
+                        )}
+                        {regions.map((r) => (
+                          <option key={r.code} value={r.code}>
+                            {r.name}
+                          </option>
+                        ))}
+                      </select>
+                      <span className="pointer-events-none absolute right-2.5 top-1/2 -translate-y-1/2 text-[#8A7050] text-[9px]">
+                        ▾
+                      </span>
+                    </div>
+                  </div>
+
+                  {/* Language */}
+                  <div>
+                    <div className="flex items-center gap-2 mb-3">
+                      <TranslateIcon size={10} className="text-[#8A7050]" />
+                      <span className="font-mono text-[9px] uppercase tracking-[0.3em] text-[#8A7050]">
+                        {t("setup.language")}
+                      </span>
+                    </div>
+                    <div className="relative inline-block">
+                      <select
+                        value={locale}
+                        onChange={(e) => setLocale(e.target.value)}
+                        className="appearance-none bg-[#1A1612] border border-[#2E2620]
+                          pl-3 pr-8 py-2 font-mono text-[12px] text-[#B0A080] tracking-wider
+                          focus:outline-none focus:border-[#C8281E50] transition-colors cursor-pointer"
+                      >
+                        {LOCALES.map((l) => (
+                          <option key={l.code} value={l.code}>
+                            {l.name}
                           </option>
                         ))}
                       </select>
@@ -720,11 +1068,11 @@ export default function App() {
                   <div>
                     <div className="flex items-center gap-2 mb-3">
                       <span className="font-mono text-[9px] uppercase tracking-[0.3em] text-[#8A7050]">
-                        Streaming Services
+                        {t("setup.services")}
                       </span>
                       {selectedProviders.size > 0 && (
                         <span className="font-mono text-[9px] text-[#C8281E] tracking-wider">
-                          · {selectedProviders.size} selected
+                          {t("setup.selected", { count: selectedProviders.size })}
                         </span>
                       )}
                     </div>
@@ -763,7 +1111,7 @@ export default function App() {
                         ))}
                         {providers.length === 0 && !providersLoading && (
                           <p className="font-mono text-[11px] text-[#7A6848] italic tracking-wider">
-                            No providers found for this region
+                            {t("setup.noProviders")}
                           </p>
                         )}
                       </div>
@@ -781,7 +1129,7 @@ export default function App() {
                   hover:bg-[#D8301E] active:scale-[0.99] transition-all cursor-pointer"
                 style={{ fontSize: "1.3rem" }}
               >
-                ENTER THE CINEMA
+                {t("setup.enter")}
                 <ArrowRightIcon size={15} weight="bold" />
               </button>
             </div>
@@ -793,7 +1141,7 @@ export default function App() {
           {step === "type" && (
             <div className="animate-slide-up">
               <div className="mb-7">
-                <SectionLabel>Now Showing</SectionLabel>
+                <SectionLabel>{t("type.section")}</SectionLabel>
                 <h2
                   className="font-display leading-none text-[#F2ECD8]"
                   style={{
@@ -801,7 +1149,7 @@ export default function App() {
                     letterSpacing: "0.04em",
                   }}
                 >
-                  What Shall We Screen?
+                  {t("type.title")}
                 </h2>
               </div>
 
@@ -810,14 +1158,20 @@ export default function App() {
                   {
                     type: "movie" as const,
                     icon: <FilmSlateIcon size={28} weight="fill" />,
-                    label: "Feature Film",
-                    sub: "A single story, one sitting",
+                    label: t("type.movie"),
+                    sub: t("type.movieSub"),
                   },
                   {
                     type: "tv" as const,
                     icon: <TelevisionIcon size={28} weight="fill" />,
-                    label: "Television",
-                    sub: "Series & episodes",
+                    label: t("type.tv"),
+                    sub: t("type.tvSub"),
+                  },
+                  {
+                    type: "either" as const,
+                    icon: <FilmReelIcon size={28} weight="fill" />,
+                    label: t("type.either"),
+                    sub: t("type.eitherSub"),
                   },
                 ].map(({ type, icon, label, sub }) => (
                   <button
@@ -826,9 +1180,9 @@ export default function App() {
                       setMediaType(type);
                       setStep("preferences");
                     }}
-                    className="group relative flex flex-col border border-[#2E2620] bg-[#120F0C]
+                    className={`group relative flex flex-col border border-[#2E2620] bg-[#120F0C]
                       cursor-pointer transition-all duration-200 overflow-hidden text-left
-                      hover:border-[#C8281E50]"
+                      hover:border-[#C8281E50] ${type === "either" ? "col-span-2" : ""}`}
                   >
                     {/* Red band */}
                     <div className="h-[5px] w-full bg-[#C8281E] shrink-0 group-hover:bg-[#D8301E] transition-colors" />
@@ -868,13 +1222,22 @@ export default function App() {
                 ))}
               </div>
 
-              <button
-                onClick={() => setStep("setup")}
-                className="flex items-center gap-1.5 mt-5 font-mono text-[9px] uppercase tracking-[0.25em] text-[#7A6848] hover:text-[#C0A880] transition-colors"
-              >
-                <ArrowLeftIcon size={10} />
-                Change Region
-              </button>
+              <div className="flex items-center justify-between mt-5">
+                <button
+                  onClick={() => setStep("setup")}
+                  className="flex items-center gap-1.5 font-mono text-[9px] uppercase tracking-[0.25em] text-[#7A6848] hover:text-[#C0A880] transition-colors"
+                >
+                  <ArrowLeftIcon size={10} />
+                  {t("type.changeRegion")}
+                </button>
+                <button
+                  onClick={() => setStep("party")}
+                  className="flex items-center gap-1.5 font-mono text-[9px] uppercase tracking-[0.25em] text-[#7A6848] hover:text-[#C0A880] transition-colors"
+                >
+                  <UsersThreeIcon size={11} />
+                  {t("party.open")}
+                </button>
+              </div>
             </div>
           )}
 
@@ -884,15 +1247,15 @@ export default function App() {
           {step === "preferences" && (
             <div className="animate-slide-up">
               <button
-                onClick={() => setStep("type")}
+                onClick={() => setStep(party ? "party" : "type")}
                 className="flex items-center gap-1.5 mb-7 font-mono text-[9px] uppercase tracking-[0.25em] text-[#7A6848] hover:text-[#C0A880] transition-colors"
               >
                 <ArrowLeftIcon size={10} />
-                Back
+                {t("app.back")}
               </button>
 
               <div className="mb-7">
-                <SectionLabel>Programme</SectionLabel>
+                <SectionLabel>{t("prefs.section")}</SectionLabel>
                 <h2
                   className="font-display leading-none text-[#F2ECD8]"
                   style={{
@@ -900,32 +1263,39 @@ export default function App() {
                     letterSpacing: "0.04em",
                   }}
                 >
-                  Curate Your Selection
+                  {t("prefs.title")}
                 </h2>
                 <p className="font-serif italic text-[13px] text-[#A89070] mt-1.5">
-                  All optional — any combination works.
+                  {t("prefs.subtitle")}
                 </p>
               </div>
 
               <div className="space-y-2.5">
-                <PrefCard label="Genre">
+                <PrefCard label={t("prefs.genre")}>
                   <div className="flex flex-wrap gap-1.5">
-                    {GENRES.map((g) => (
-                      <Toggle
-                        key={g}
-                        pressed={selectedGenres.has(g)}
-                        onPressedChange={() =>
-                          setSelectedGenres((prev) => toggleSet(prev, g))
-                        }
-                        className={pill}
-                      >
-                        {g}
-                      </Toggle>
-                    ))}
+                    {genresLoading && genres.length === 0
+                      ? [...Array(10)].map((_, i) => (
+                          <div
+                            key={i}
+                            className="h-6 w-16 bg-[#1A1612] animate-pulse border border-[#2E2620]"
+                          />
+                        ))
+                      : genres.map((g) => (
+                          <Toggle
+                            key={g}
+                            pressed={selectedGenres.has(g)}
+                            onPressedChange={() =>
+                              setSelectedGenres((prev) => toggleSet(prev, g))
+                            }
+                            className={pill}
+                          >
+                            {g}
+                          </Toggle>
+                        ))}
                   </div>
                 </PrefCard>
 
-                <PrefCard label="Mood">
+                <PrefCard label={t("prefs.mood")}>
                   <div className="flex flex-wrap gap-1.5">
                     {MOODS.map((mood) => (
                       <Toggle
@@ -936,13 +1306,13 @@ export default function App() {
                         }
                         className={pill}
                       >
-                        {mood}
+                        {tag(mood)}
                       </Toggle>
                     ))}
                   </div>
                 </PrefCard>
 
-                <PrefCard label="Style">
+                <PrefCard label={t("prefs.style")}>
                   <div className="flex flex-wrap gap-1.5">
                     {STYLES.map((style) => (
                       <Toggle
@@ -953,7 +1323,7 @@ export default function App() {
                         }
                         className={pill}
                       >
-                        {style}
+                        {tag(style)}
                       </Toggle>
                     ))}
                   </div>
@@ -964,9 +1334,9 @@ export default function App() {
                   <FilmStrip />
                   <div className="p-4">
                     <p className="font-mono text-[9px] uppercase tracking-[0.3em] text-[#8A7050] mb-3">
-                      Describe It{" "}
+                      {t("prefs.describe")}{" "}
                       <span className="normal-case font-sans tracking-normal text-[#5A4838]">
-                        (optional)
+                        {t("prefs.optional")}
                       </span>
                     </p>
                     <Field.Root className="w-full">
@@ -976,26 +1346,45 @@ export default function App() {
                         onChange={(e) =>
                           setDescription((e.target as HTMLInputElement).value)
                         }
-                        placeholder="e.g. 'Something like Arrival but more emotional…'"
+                        placeholder={t("prefs.describePlaceholder")}
                         className="w-full resize-none bg-transparent font-sans text-[13px] text-[#C0A880]
                           placeholder:text-[#5A4838] focus:outline-none leading-relaxed"
                       />
                     </Field.Root>
                   </div>
                 </div>
+
+                <FiltersPanel
+                  mediaType={mediaType}
+                  filters={filters}
+                  onChange={setFilters}
+                />
               </div>
 
+              {/* In a room, preferences go to the group instead of straight to a search */}
+              {party && partyError && (
+                <p className="mt-4 font-mono text-[10px] text-[#C05050] tracking-[0.1em]">
+                  {partyError}
+                </p>
+              )}
               <button
                 onClick={() => {
-                  void handleSubmit();
+                  if (party) submitPartyPreferences();
+                  else void handleSubmit();
                 }}
+                disabled={partyBusy}
                 className="mt-4 w-full flex items-center justify-center gap-3 py-4
                   bg-[#C8281E] text-[#F2ECD8] font-display tracking-[0.15em]
-                  hover:bg-[#D8301E] active:scale-[0.99] transition-all cursor-pointer"
+                  hover:bg-[#D8301E] active:scale-[0.99] transition-all cursor-pointer
+                  disabled:opacity-40 disabled:cursor-not-allowed"
                 style={{ fontSize: "1.3rem" }}
               >
-                <FilmSlateIcon size={17} weight="fill" />
-                LIGHTS DOWN
+                {party ? (
+                  <UsersThreeIcon size={17} weight="fill" />
+                ) : (
+                  <FilmSlateIcon size={17} weight="fill" />
+                )}
+                {t(party ? "party.send" : "prefs.submit")}
               </button>
             </div>
           )}
@@ -1006,15 +1395,15 @@ export default function App() {
           {step === "results" && (
             <div ref={resultsRef} className="animate-slide-up">
               <button
-                onClick={() => setStep("preferences")}
+                onClick={() => setStep(partySearch ? "party" : "preferences")}
                 className="flex items-center gap-1.5 mb-7 font-mono text-[9px] uppercase tracking-[0.25em] text-[#7A6848] hover:text-[#C0A880] transition-colors"
               >
                 <ArrowLeftIcon size={10} />
-                Back
+                {t("app.back")}
               </button>
 
               <div className="mb-6">
-                <SectionLabel>Now Playing</SectionLabel>
+                <SectionLabel>{t("results.section")}</SectionLabel>
                 <h2
                   className="font-display leading-none text-[#F2ECD8]"
                   style={{
@@ -1022,27 +1411,27 @@ export default function App() {
                     letterSpacing: "0.04em",
                   }}
                 >
-                  {isActive && recBlocks.length === 0
-                    ? "Finding Your Film…"
-                    : "Tonight's Selection"}
+                  {isActive && picks.length === 0
+                    ? t("results.finding")
+                    : t("results.title")}
                 </h2>
-                {!isActive && recBlocks.length > 0 && (
+                {!isActive && picks.length > 0 && (
                   <p className="font-serif italic text-[13px] text-[#A89070] mt-1.5">
-                    Curated for your viewing pleasure.
+                    {t("results.subtitle")}
                   </p>
                 )}
               </div>
 
               {/* Progress */}
-              {(isActive || ss === "done" || ss === "error") && (
+              {(isActive || ss === "done" || ss === "error" || ss === "stopped") && (
                 <div className="border border-[#2E2620] bg-[#120F0C] mb-6 overflow-hidden">
                   <FilmStrip />
                   <div className="p-4 space-y-3">
                     <div className="flex items-center gap-3">
-                      {ss === "searching" ? (
+                      {ss === "searching" || (ss === "stopped" && foundCount === null) ? (
                         <MagnifyingGlassIcon
                           size={12}
-                          className="text-[#C8281E] shrink-0 animate-pulse"
+                          className={`text-[#C8281E] shrink-0 ${ss === "searching" ? "animate-pulse" : ""}`}
                         />
                       ) : (
                         <CheckCircleIcon
@@ -1052,10 +1441,19 @@ export default function App() {
                         />
                       )}
                       <span className="font-mono text-[9px] uppercase tracking-[0.25em] text-[#A89070]">
-                        {ss === "searching"
-                          ? "Searching Archives…"
-                          : `Found ${foundCount ?? "?"} Titles`}
+                        {ss === "searching" || (ss === "stopped" && foundCount === null)
+                          ? t("results.searching")
+                          : t("results.found", { count: foundCount ?? "?" })}
                       </span>
+                      {isActive && (
+                        <Button
+                          onClick={stopSearch}
+                          className="ml-auto flex items-center gap-1.5 font-mono text-[9px] uppercase tracking-[0.25em] text-[#7A6848] hover:text-[#C0A880] transition-colors cursor-pointer"
+                        >
+                          <StopIcon size={10} weight="fill" />
+                          {t("results.stop")}
+                        </Button>
+                      )}
                     </div>
 
                     {(ss === "found" ||
@@ -1077,8 +1475,21 @@ export default function App() {
                         )}
                         <span className="font-mono text-[9px] uppercase tracking-[0.25em] text-[#A89070]">
                           {ss === "done"
-                            ? "Programme Ready"
-                            : "Selecting Best Matches…"}
+                            ? t("results.ready")
+                            : t("results.selecting")}
+                        </span>
+                      </div>
+                    )}
+
+                    {ss === "stopped" && (
+                      <div className="flex items-center gap-3">
+                        <StopCircleIcon
+                          size={12}
+                          weight="fill"
+                          className="text-[#7A6848] shrink-0"
+                        />
+                        <span className="font-mono text-[9px] uppercase tracking-[0.25em] text-[#A89070]">
+                          {t("results.stopped")}
                         </span>
                       </div>
                     )}
@@ -1087,26 +1498,87 @@ export default function App() {
                 </div>
               )}
 
+              {/* The picks still stand without the AI curator; say how they were made */}
+              {searchState.fallback && picks.length > 0 && (
+                <div className="flex items-start gap-3 px-4 py-3 mb-3 border border-[#5A4418] bg-[#16120A]">
+                  <InfoIcon
+                    size={13}
+                    weight="duotone"
+                    className="text-[#C9922A] shrink-0 mt-0.5"
+                  />
+                  <p className="font-mono text-[10px] text-[#B09060] leading-relaxed tracking-[0.1em]">
+                    {t("results.fallback")}
+                  </p>
+                </div>
+              )}
+
               {/* Rec cards */}
-              {recBlocks.length > 0 && (
+              {picks.length > 0 && (
                 <div className="border border-[#2E2620] overflow-hidden">
-                  {recBlocks.map((block) => (
+                  {picks.map((pick, i) => (
                     <RecCard
-                      key={block.key}
-                      block={block}
-                      isLiked={likedTitles.has(block.title)}
-                      isDisliked={dislikedTitles.has(block.title)}
-                      onLike={() => toggleFeedback(block.title, "like")}
-                      onDislike={() => toggleFeedback(block.title, "dislike")}
+                      key={pickKey(pick)}
+                      pick={pick}
+                      description={descriptions[i] ?? ""}
+                      feedback={{
+                        isLiked: likedPicks.has(pickKey(pick)),
+                        isDisliked: dislikedPicks.has(pickKey(pick)),
+                        onLike: () => toggleFeedback(pick, "like"),
+                        onDislike: () => toggleFeedback(pick, "dislike"),
+                      }}
+                      watchlist={
+                        profileId
+                          ? {
+                              isSaved: watchlist.some((i) => pickKey(i) === pickKey(pick)),
+                              onToggle: () => toggleSaved(pick),
+                            }
+                          : undefined
+                      }
+                      actions={
+                        partySearch
+                          ? undefined
+                          : {
+                              swapping: swapping === i,
+                              canSwap: ss === "done" && searchState.sessionId !== null && swapping === null && !swapLimited,
+                              onSwap: () => void swapPick(i),
+                              onMoreLike: () => moreLikeThis(pick),
+                            }
+                      }
+                      onDetails={() => setDetailPick(pick)}
                     />
                   ))}
                 </div>
               )}
 
+              {(swapError || swapRetryAt !== null) && (
+                <div className="flex items-start gap-3 px-4 py-3.5 mt-3 border border-[#5A1A14] bg-[#1A0C0A]">
+                  {swapRetryAt !== null ? (
+                    <SmileySadIcon
+                      size={13}
+                      weight="duotone"
+                      className="text-[#C8281E] shrink-0 mt-0.5"
+                    />
+                  ) : (
+                    <WarningIcon
+                      size={13}
+                      weight="duotone"
+                      className="text-[#C8281E] shrink-0 mt-0.5"
+                    />
+                  )}
+                  <p className="font-mono text-[10px] text-[#C05050] leading-relaxed tracking-[0.1em]">
+                    {swapRetryAt === null
+                      ? t("results.swapFailed", { error: swapError ?? "" })
+                      : swapLimited
+                        ? t("results.rateLimited", { seconds: swapRetryIn })
+                        : t("results.retryReady")}
+                  </p>
+                </div>
+              )}
+
               {/* Error */}
               {ss === "error" && searchError && (
                 <div className="flex items-start gap-3 px-4 py-3.5 border border-[#5A1A14] bg-[#1A0C0A]">
-                  {searchError.includes("429") ? (
+                  {searchState.retryAt !== null ? (
                     <SmileySadIcon
                       size={13}
                       weight="duotone"
@@ -1120,45 +1592,63 @@ export default function App() {
                     />
                   )}
                   <p className="font-mono text-[10px] text-[#C05050] leading-relaxed tracking-[0.1em]">
-                    {searchError.includes("429")
-                      ? "Too many requests — take a breath and try again in a minute."
-                      : `Something went wrong: ${searchError}`}
+                    {searchState.retryAt === null
+                      ? t("results.error", { error: searchError })
+                      : rateLimited
+                        ? t("results.rateLimited", { seconds: retryIn })
+                        : t("results.retryReady")}
                   </p>
                 </div>
               )}
 
               {/* Done actions */}
-              {(ss === "done" || ss === "error") && (
+              {(ss === "done" || ss === "error" || ss === "stopped") && (
                 <div className="mt-7 pt-5 border-t border-[#2E2620] space-y-3">
 
+                  {/* The room votes on a party search's picks */}
+                  {partySearch && ss === "done" && (
+                    <button
+                      onClick={() => setStep("party")}
+                      className="w-full flex items-center justify-center gap-3 py-3.5
+                        bg-[#C9922A] text-[#0D0B08] font-display tracking-[0.12em]
+                        hover:bg-[#D9A030] active:scale-[0.99] transition-all cursor-pointer"
+                      style={{ fontSize: "1.1rem" }}
+                    >
+                      <UsersThreeIcon size={15} weight="fill" />
+                      {t("party.backToRoom")}
+                    </button>
+                  )}
+
                   {/* Refine row — shown when any feedback given */}
-                  {(likedTitles.size > 0 || dislikedTitles.size > 0) && (
+                  {!partySearch && (likedPicks.size > 0 || dislikedPicks.size > 0) && (
                     <div className="border border-[#2E2620] bg-[#120F0C] overflow-hidden">
                       <FilmStrip />
                       <div className="px-4 py-3 flex items-center gap-3">
                         <div className="flex items-center gap-3 font-mono text-[9px] uppercase tracking-[0.2em]">
-                          {likedTitles.size > 0 && (
+                          {likedPicks.size > 0 && (
                             <span className="flex items-center gap-1 text-[#C9922A]">
                               <ThumbsUpIcon size={10} weight="fill" />
-                              {likedTitles.size}
+                              {likedPicks.size}
                             </span>
                           )}
-                          {dislikedTitles.size > 0 && (
+                          {dislikedPicks.size > 0 && (
                             <span className="flex items-center gap-1 text-[#C8281E]">
                               <ThumbsDownIcon size={10} weight="fill" />
-                              {dislikedTitles.size}
+                              {dislikedPicks.size}
                             </span>
                           )}
-                          <span className="text-[#8A7050]">picks rated</span>
+                          <span className="text-[#8A7050]">{t("results.rated")}</span>
                         </div>
                         <button
                           onClick={() => { void handleSubmit(); }}
+                          disabled={rateLimited}
                           className="ml-auto flex items-center gap-2 px-4 py-2
                             bg-[#C9922A] text-[#0D0B08] font-display tracking-[0.1em]
-                            hover:bg-[#D9A030] active:scale-[0.99] transition-all cursor-pointer"
+                            hover:bg-[#D9A030] active:scale-[0.99] transition-all cursor-pointer
+                            disabled:opacity-40 disabled:cursor-not-allowed"
                           style={{ fontSize: "1rem" }}
                         >
-                          REFINE MY PICKS
+                          {t("results.refine")}
                           <ArrowRightIcon size={11} weight="bold" />
                         </button>
                       </div>
@@ -1167,13 +1657,28 @@ export default function App() {
 
                   {/* Secondary actions */}
                   <div className="flex items-center gap-4">
-                    {likedTitles.size === 0 && dislikedTitles.size === 0 && (
+                    {searchState.shareId && (
                       <Button
-                        onClick={() => { void handleSubmit(); }}
+                        onClick={() => copyShareLink(searchState.shareId!)}
                         className="flex items-center gap-2 font-mono text-[9px] uppercase tracking-[0.25em] text-[#7A6848] hover:text-[#C0A880] transition-colors cursor-pointer"
+                      >
+                        {copied ? (
+                          <CheckCircleIcon size={11} weight="fill" className="text-[#C9922A]" />
+                        ) : (
+                          <LinkIcon size={11} />
+                        )}
+                        {copied ? t("results.copied") : t("results.copyLink")}
+                      </Button>
+                    )}
+                    {!partySearch && likedPicks.size === 0 && dislikedPicks.size === 0 && (
+                      <Button
+                        onClick={() => { void handleSubmit(); }}
+                        disabled={rateLimited}
+                        className="flex items-center gap-2 font-mono text-[9px] uppercase tracking-[0.25em] text-[#7A6848] hover:text-[#C0A880] transition-colors cursor-pointer
+                          disabled:opacity-40 disabled:cursor-not-allowed"
                       >
                         <SparkleIcon size={11} />
-                        Try Again
+                        {t("results.tryAgain")}
                       </Button>
                     )}
                     <Button
@@ -1182,7 +1687,7 @@ export default function App() {
                         font-mono text-[9px] uppercase tracking-[0.25em] text-[#7A6848]
                         hover:border-[#4A3828] hover:text-[#C0A880] transition-all cursor-pointer"
                     >
-                      New Search
+                      {t("results.newSearch")}
                       <ArrowRightIcon size={10} />
                     </Button>
                   </div>
@@ -1193,6 +1698,12 @@ export default function App() {
         </div>
         {/* /px-5 */}
 
+        <TitleDrawer
+          pick={detailPick}
+          country={party && room ? room.country : country}
+          onClose={() => setDetailPick(null)}
+        />
+
         {/* Footer */}
         <footer className="mt-20 px-0">
           <div className="h-[3px] bg-[#C8281E]" />
@@ -0,0 +1,261 @@
+import { Collapsible } from "@base-ui/react/collapsible";
+import { NumberField } from "@base-ui/react/number-field";
+import { Toggle } from "@base-ui/react/toggle";
+import { ToggleGroup } from "@base-ui/react/toggle-group";
+import { CaretDownIcon, SlidersHorizontalIcon } from "@phosphor-icons/react";
+import type { Filters, MediaChoice } from "../../shared/contract";
+import { FilmStrip, pill } from "./decor";
+import { useI18n } from "./i18n";
+
+// ── Options ────────────────────────────────────────────────────────────────
+// ISO 639-1 codes; labels come from Intl in the UI language
+const LANGUAGES = ["en", "fr", "es", "de", "it", "ja", "ko", "zh", "hi", "da", "sv", "pt"];
+
+const RATINGS = [6, 7, 8];
+const VOTE_COUNTS = [100, 500, 1000, 5000];
+const THIS_YEAR = new Date().getFullYear();
+
+function activeFilterCount(f: Filters): number {
+  return [
+    f.yearFrom != null || f.yearTo != null,
+    f.runtimeMin != null || f.runtimeMax != null,
+    (f.languages?.length ?? 0) > 0,
+    f.minRating != null,
+    f.minVotes != null,
+  ].filter(Boolean).length;
+}
+
+// ── Pieces ─────────────────────────────────────────────────────────────────
+function FilterLabel({ children }: { children: React.ReactNode }) {
+  return (
+    <p className="font-mono text-[8px] uppercase tracking-[0.25em] text-[#7A6848] mb-2">
+      {children}
+    </p>
+  );
+}
+
+function NumberInput({
+  value,
+  onChange,
+  placeholder,
+  min,
+  max,
+  label,
+}: {
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  placeholder: string;
+  min: number;
+  max: number;
+  label: string;
+}) {
+  return (
+    <NumberField.Root
+      value={value ?? null}
+      onValueChange={(v) => onChange(v ?? undefined)}
+      min={min}
+      max={max}
+      format={{ useGrouping: false }}
+      className="flex-1 min-w-0"
+    >
+      <NumberField.Input
+        aria-label={label}
+        placeholder={placeholder}
+        className="w-full px-3 py-1.5 border border-[#2E2620] bg-[#0D0B08] font-mono text-[11px] text-[#C0A880]
+          placeholder:text-[#4A3828] focus:outline-none focus:border-[#C8281E60] transition-colors"
+      />
+    </NumberField.Root>
+  );
+}
+
+function RangeRow({
+  from,
+  to,
+  onChange,
+  placeholders,
+  bounds,
+  unit,
+  labels,
+}: {
+  from: number | undefined;
+  to: number | undefined;
+  onChange: (from: number | undefined, to: number | undefined) => void;
+  placeholders: [string, string];
+  bounds: [number, number];
+  unit?: string;
+  labels: [string, string];
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <NumberInput
+        value={from}
+        onChange={(v) => onChange(v, to)}
+        placeholder={placeholders[0]}
+        min={bounds[0]}
+        max={bounds[1]}
+        label={labels[0]}
+      />
+      <span className="font-mono text-[9px] text-[#5A4838]">—</span>
+      <NumberInput
+        value={to}
+        onChange={(v) => onChange(from, v)}
+        placeholder={placeholders[1]}
+        min={bounds[0]}
+        max={bounds[1]}
+        label={labels[1]}
+      />
+      {unit && (
+        <span className="font-mono text-[9px] uppercase tracking-[0.2em] text-[#5A4838]">
+          {unit}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// Single-choice pills with an "Any" option that clears the value
+function ThresholdPills({
+  value,
+  options,
+  format,
+  onChange,
+}: {
+  value: number | undefined;
+  options: number[];
+  format: (n: number) => string;
+  onChange: (value: number | undefined) => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <ToggleGroup
+      value={[value == null ? "any" : String(value)]}
+      onValueChange={(values) => {
+        const [v] = values;
+        onChange(v == null || v === "any" ? undefined : Number(v));
+      }}
+      className="flex flex-wrap gap-1.5"
+    >
+      <Toggle value="any" className={pill}>
+        {t("filters.any")}
+      </Toggle>
+      {options.map((n) => (
+        <Toggle key={n} value={String(n)} className={pill}>
+          {format(n)}
+        </Toggle>
+      ))}
+    </ToggleGroup>
+  );
+}
+
+// ── Filters panel ──────────────────────────────────────────────────────────
+// Hard limits on the candidate pool; collapsed by default since most
+// searches don't need them.
+export function FiltersPanel({
+  mediaType,
+  filters,
+  onChange,
+}: {
+  mediaType: MediaChoice;
+  filters: Filters;
+  onChange: (filters: Filters) => void;
+}) {
+  const { t, languageName } = useI18n();
+  const active = activeFilterCount(filters);
+  const languages = new Set(filters.languages ?? []);
+
+  function toggleLanguage(code: string) {
+    const next = new Set(languages);
+    next.has(code) ? next.delete(code) : next.add(code);
+    onChange({ ...filters, languages: [...next] });
+  }
+
+  return (
+    <Collapsible.Root className="border border-[#2E2620] bg-[#120F0C] overflow-hidden">
+      <FilmStrip />
+      <Collapsible.Trigger
+        className="group w-full flex items-center gap-2 px-4 py-3 cursor-pointer
+          font-mono text-[9px] uppercase tracking-[0.3em] text-[#8A7050] hover:text-[#C0A880] transition-colors"
+      >
+        <SlidersHorizontalIcon size={11} />
+        {t("filters.title")}
+        {active > 0 && (
+          <span className="px-1.5 py-0.5 bg-[#C8281E] text-[#F2ECD8] tracking-normal">
+            {active}
+          </span>
+        )}
+        <CaretDownIcon
+          size={10}
+          className="ml-auto transition-transform group-data-[panel-open]:rotate-180"
+        />
+      </Collapsible.Trigger>
+      <Collapsible.Panel className="px-4 pb-4 space-y-4">
+        <div>
+          <FilterLabel>
+            {t(`filters.year.${mediaType}`)}
+          </FilterLabel>
+          <RangeRow
+            from={filters.yearFrom}
+            to={filters.yearTo}
+            onChange={(yearFrom, yearTo) => onChange({ ...filters, yearFrom, yearTo })}
+            placeholders={["1920", String(THIS_YEAR)]}
+            bounds={[1900, 2100]}
+            labels={[t("filters.yearFrom"), t("filters.yearTo")]}
+          />
+        </div>
+
+        <div>
+          <FilterLabel>
+            {t(`filters.runtime.${mediaType}`)}
+          </FilterLabel>
+          <RangeRow
+            from={filters.runtimeMin}
+            to={filters.runtimeMax}
+            onChange={(runtimeMin, runtimeMax) =>
+              onChange({ ...filters, runtimeMin, runtimeMax })
+            }
+            placeholders={["0", mediaType === "tv" ? "90" : "240"]}
+            bounds={[0, 600]}
+            unit={t("filters.minutes")}
+            labels={[t("filters.runtimeMin"), t("filters.runtimeMax")]}
+          />
+        </div>
+
+        <div>
+          <FilterLabel>{t("filters.language")}</FilterLabel>
+          <div className="flex flex-wrap gap-1.5">
+            {LANGUAGES.map((code) => (
+              <Toggle
+                key={code}
+                pressed={languages.has(code)}
+                onPressedChange={() => toggleLanguage(code)}
+                className={pill}
+              >
+                {languageName(code)}
+              </Toggle>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <FilterLabel>{t("filters.minRating")}</FilterLabel>
+          <ThresholdPills
+            value={filters.minRating}
+            options={RATINGS}
+            format={(n) => `${n}★+`}
+            onChange={(minRating) => onChange({ ...filters, minRating })}
+          />
+        </div>
+
+        <div>
+          <FilterLabel>{t("filters.minVotes")}</FilterLabel>
+          <ThresholdPills
+            value={filters.minVotes}
+            options={VOTE_COUNTS}
+            format={(n) => (n >= 1000 ? `${n / 1000}k+` : `${n}+`)}
+            onChange={(minVotes) => onChange({ ...filters, minVotes })}
+          />
+        </div>
+      </Collapsible.Panel>
+    </Collapsible.Root>
+  );
+}
@@ -0,0 +1,201 @@
+import {
+  ArrowsClockwiseIcon,
+  BookmarkSimpleIcon,
+  InfoIcon,
+  SparkleIcon,
+  ThumbsDownIcon,
+  ThumbsUpIcon,
+} from "@phosphor-icons/react";
+import type { RecPick } from "../../shared/contract";
+import { FilmPerfs } from "./decor";
+import { useI18n } from "./i18n";
+
+// ── Recommendation renderer ────────────────────────────────────────────────
+const TMDB_IMG = "https://image.tmdb.org/t/p/w185";
+const TMDB_LOGO = "https://image.tmdb.org/t/p/w45";
+
+export interface CardFeedback {
+  isLiked: boolean
+  isDisliked: boolean
+  onLike: () => void
+  onDislike: () => void
+}
+
+export interface CardWatchlist {
+  isSaved: boolean
+  onToggle: () => void
+}
+
+// Swap replaces just this card; "more like this" starts a new search from it
+export interface CardActions {
+  swapping: boolean
+  canSwap: boolean
+  onSwap: () => void
+  onMoreLike: () => void
+}
+
+// Without `feedback` the card is read-only (shared results); `watchlist` is
+// left out when there is no profile to save to
+export function RecCard({ pick, description, feedback, watchlist, actions, onDetails }: {
+  pick: RecPick
+  description: string
+  feedback?: CardFeedback
+  watchlist?: CardWatchlist
+  actions?: CardActions
+  onDetails: () => void
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="flex animate-slide-in border-b border-[#2E2620] last:border-b-0">
+      {/* Left perforations */}
+      <div className="w-5 shrink-0 bg-[#161210] border-r border-[#2E2620]">
+        <FilmPerfs count={6} />
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 flex gap-4 p-4 bg-[#120F0C]">
+        {pick.posterPath ? (
+          <div
+            className="relative shrink-0 self-start w-[72px]"
+            style={{ aspectRatio: "2/3" }}
+          >
+            <img
+              src={`${TMDB_IMG}${pick.posterPath}`}
+              alt={pick.title}
+              className="absolute inset-0 w-full h-full object-cover"
+            />
+            <div
+              className="absolute inset-0 pointer-events-none"
+              style={{ boxShadow: "inset 0 0 0 2px #C8281E" }}
+            />
+          </div>
+        ) : (
+          <div
+            className="shrink-0 self-start bg-[#1E1A16] border border-[#2E2620]"
+            style={{ width: "72px", aspectRatio: "2/3" }}
+          />
+        )}
+
+        <div className="flex-1 min-w-0 pt-0.5 flex flex-col">
+          <p className="font-display text-[1.45rem] leading-none tracking-wider text-[#F2ECD8] uppercase">
+            {pick.title}
+          </p>
+          <div className="flex items-center gap-2 mt-1.5 font-mono text-[9px] uppercase tracking-[0.18em]">
+            <span className="shrink-0 px-1 py-px border border-[#C8281E60] text-[#E05A48] text-[8px] leading-none">
+              {t(pick.mediaType === "movie" ? "card.film" : "card.series")}
+            </span>
+            <span className="text-[#C9922A] truncate">
+              {[pick.year, pick.vibe].filter(Boolean).join(" · ")}
+            </span>
+          </div>
+          {/* Where it streams; the server has checked it against the chosen services */}
+          {(pick.providers?.length || pick.watchLink) && (
+            <div className="flex items-center gap-1.5 mt-2">
+              {pick.providers && pick.providers.length > 0 && (
+                <>
+                  <span className="font-mono text-[8px] uppercase tracking-[0.2em] text-[#8A7050]">
+                    {t("card.streamingOn")}
+                  </span>
+                  {pick.providers.map((p) => (
+                    <img
+                      key={p.provider_id}
+                      src={`${TMDB_LOGO}${p.logo_path}`}
+                      alt={p.provider_name}
+                      title={p.provider_name}
+                      className="w-4 h-4 object-cover border border-[#2E2620]"
+                    />
+                  ))}
+                </>
+              )}
+              {pick.watchLink && (
+                <a
+                  href={pick.watchLink}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="ml-auto font-mono text-[8px] uppercase tracking-[0.2em] text-[#7A6848] hover:text-[#C0A880] transition-colors"
+                >
+                  {t("card.whereToWatch")}
+                </a>
+              )}
+            </div>
+          )}
+          {description.trim() && (
+            <p className="font-sans text-[12px] text-[#A09080] mt-2 leading-relaxed">
+              {description.trim()}
+            </p>
+          )}
+
+          {/* Feedback */}
+          <div className="flex gap-4 mt-3 pt-2.5 border-t border-[#1E1A16]">
+            {feedback && (
+              <>
+                <button
+                  onClick={feedback.onLike}
+                  className={`flex items-center gap-1.5 font-mono text-[8px] uppercase tracking-[0.15em] transition-colors cursor-pointer ${
+                    feedback.isLiked ? "text-[#C9922A]" : "text-[#4A3828] hover:text-[#8A7050]"
+                  }`}
+                >
+                  <ThumbsUpIcon size={11} weight={feedback.isLiked ? "fill" : "regular"} />
+                  {t(feedback.isLiked ? "card.liked" : "card.like")}
+                </button>
+                <button
+                  onClick={feedback.onDislike}
+                  className={`flex items-center gap-1.5 font-mono text-[8px] uppercase tracking-[0.15em] transition-colors cursor-pointer ${
+                    feedback.isDisliked ? "text-[#C8281E]" : "text-[#4A3828] hover:text-[#8A7050]"
+                  }`}
+                >
+                  <ThumbsDownIcon size={11} weight={feedback.isDisliked ? "fill" : "regular"} />
+                  {t("card.dislike")}
+                </button>
+              </>
+            )}
+            {watchlist && (
+              <button
+                onClick={watchlist.onToggle}
+                className={`flex items-center gap-1.5 font-mono text-[8px] uppercase tracking-[0.15em] transition-colors cursor-pointer ${
+                  watchlist.isSaved ? "text-[#C9922A]" : "text-[#4A3828] hover:text-[#8A7050]"
+                }`}
+              >
+                <BookmarkSimpleIcon size={11} weight={watchlist.isSaved ? "fill" : "regular"} />
+                {t(watchlist.isSaved ? "card.saved" : "card.save")}
+              </button>
+            )}
+            <button
+              onClick={onDetails}
+              className="ml-auto flex items-center gap-1.5 font-mono text-[8px] uppercase tracking-[0.15em] transition-colors cursor-pointer text-[#4A3828] hover:text-[#8A7050]"
+            >
+              <InfoIcon size={11} />
+              {t("card.details")}
+            </button>
+          </div>
+
+          {actions && (
+            <div className="flex gap-4 mt-2">
+              <button
+                onClick={actions.onSwap}
+                disabled={!actions.canSwap}
+                className="flex items-center gap-1.5 font-mono text-[8px] uppercase tracking-[0.15em] transition-colors cursor-pointer text-[#4A3828] hover:text-[#8A7050]
+                  disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:text-[#4A3828]"
+              >
+                <ArrowsClockwiseIcon size={11} className={actions.swapping ? "animate-spin" : ""} />
+                {t(actions.swapping ? "card.swapping" : "card.swap")}
+              </button>
+              <button
+                onClick={actions.onMoreLike}
+                className="flex items-center gap-1.5 font-mono text-[8px] uppercase tracking-[0.15em] transition-colors cursor-pointer text-[#4A3828] hover:text-[#8A7050]"
+              >
+                <SparkleIcon size={11} />
+                {t("card.moreLike")}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Right perforations */}
+      <div className="w-5 shrink-0 bg-[#161210] border-l border-[#2E2620]">
+        <FilmPerfs count={6} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { ArrowRightIcon, WarningIcon } from "@phosphor-icons/react";
+import { useEffect, useState } from "react";
+import type {
+  ApiError,
+  RecPick,
+  SharedRecommendation,
+} from "../../shared/contract";
+import { FilmStrip } from "./decor";
+import { useI18n } from "./i18n";
+import { RecCard } from "./RecCard";
+import { TitleDrawer } from "./TitleDrawer";
+
+// ── Share routes ───────────────────────────────────────────────────────────
+export function shareUrl(id: string): string {
+  return `${window.location.origin}/s/${id}`;
+}
+
+export function matchShareRoute(pathname: string): string | null {
+  return pathname.match(/^\/s\/([A-Za-z0-9_-]{8})\/?$/)?.[1] ?? null;
+}
+
+// ── Read-only results ──────────────────────────────────────────────────────
+export function SharedResults({ id, onExit }: { id: string; onExit: () => void }) {
+  const { t, tag } = useI18n();
+  const [share, setShare] = useState<SharedRecommendation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [detailPick, setDetailPick] = useState<RecPick | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/share/${id}`)
+      .then(async (r) => {
+        if (!r.ok) throw new Error(((await r.json()) as ApiError).error);
+        return (await r.json()) as SharedRecommendation;
+      })
+      .then((d) => !cancelled && setShare(d))
+      .catch((e: unknown) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : t("app.unknownError"));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, t]);
+
+  const prefs = share?.preferences;
+  const summary = prefs
+    ? [
+        t(`shared.${prefs.mediaType}`),
+        ...prefs.genres,
+        ...[...prefs.moods, ...prefs.styles].map(tag),
+      ].join(" · ")
+    : null;
+
+  return (
+    <div className="animate-slide-up">
+      <div className="mb-6">
+        <p className="font-mono text-[9px] uppercase tracking-[0.35em] text-[#8A7050] mb-1">
+          — {t("shared.section")} —
+        </p>
+        <h2
+          className="font-display leading-none text-[#F2ECD8]"
+          style={{ fontSize: "clamp(2rem, 6vw, 2.6rem)", letterSpacing: "0.04em" }}
+        >
+          {t("results.title")}
+        </h2>
+        {summary && (
+          <p className="font-mono text-[9px] uppercase tracking-[0.18em] text-[#C9922A] mt-2">
+            {summary}
+          </p>
+        )}
+        {prefs?.description && (
+          <p className="font-serif italic text-[13px] text-[#A89070] mt-1.5">
+            “{prefs.description}”
+          </p>
+        )}
+      </div>
+
+      {!share && !error && (
+        <div className="border border-[#2E2620] bg-[#120F0C] overflow-hidden">
+          <FilmStrip />
+          <div className="p-4 space-y-2">
+            {[0, 1, 2].map((i) => (
+              <div key={i} className="h-16 bg-[#1A1612] animate-pulse" />
+            ))}
+          </div>
+          <FilmStrip />
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-3 px-4 py-3.5 border border-[#5A1A14] bg-[#1A0C0A]">
+          <WarningIcon size={13} weight="duotone" className="text-[#C8281E] shrink-0 mt-0.5" />
+          <p className="font-mono text-[10px] text-[#C05050] leading-relaxed tracking-[0.1em]">
+            {error}
+          </p>
+        </div>
+      )}
+
+      {share && (
+        <div className="border border-[#2E2620] overflow-hidden">
+          {share.result.picks.map((pick, i) => (
+            <RecCard
+              key={`${pick.mediaType}:${pick.id}`}
+              pick={pick}
+              description={share.result.descriptions[i] ?? ""}
+              onDetails={() => setDetailPick(pick)}
+            />
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={onExit}
+        className="mt-4 w-full flex items-center justify-center gap-3 py-4
+          bg-[#C8281E] text-[#F2ECD8] font-display tracking-[0.15em]
+          hover:bg-[#D8301E] active:scale-[0.99] transition-all cursor-pointer"
+        style={{ fontSize: "1.3rem" }}
+      >
+        {t("shared.findYourOwn")}
+        <ArrowRightIcon size={15} weight="bold" />
+      </button>
+
+      <TitleDrawer
+        pick={detailPick}
+        country={prefs?.country ?? "US"}
+        onClose={() => setDetailPick(null)}
+      />
+    </div>
+  );
+}
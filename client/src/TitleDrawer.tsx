@@ -0,0 +1,242 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { PlayIcon, WarningIcon, XIcon } from "@phosphor-icons/react";
+import { useEffect, useState } from "react";
+import type {
+  ApiError,
+  Provider,
+  RecPick,
+  TitleDetails,
+} from "../../shared/contract";
+import { FilmStrip } from "./decor";
+import { useI18n } from "./i18n";
+
+const TMDB_POSTER = "https://image.tmdb.org/t/p/w185";
+const TMDB_LOGO = "https://image.tmdb.org/t/p/w45";
+
+function formatRuntime(
+  details: TitleDetails,
+  t: ReturnType<typeof useI18n>["t"],
+): string | null {
+  if (details.mediaType === "tv") {
+    const parts = [
+      details.seasons != null
+        ? details.seasons === 1
+          ? t("title.season")
+          : t("title.seasons", { count: details.seasons })
+        : null,
+      details.runtime != null ? t("title.episodes", { minutes: details.runtime }) : null,
+    ];
+    return parts.filter(Boolean).join(" · ") || null;
+  }
+  if (details.runtime == null) return null;
+  const h = Math.floor(details.runtime / 60);
+  const m = details.runtime % 60;
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+}
+
+function ProviderRow({ label, providers }: { label: string; providers: Provider[] }) {
+  if (providers.length === 0) return null;
+  return (
+    <div className="flex items-start gap-3">
+      <span className="w-12 shrink-0 pt-1 font-mono text-[8px] uppercase tracking-[0.2em] text-[#8A7050]">
+        {label}
+      </span>
+      <div className="flex flex-wrap gap-1.5">
+        {providers.map((p) => (
+          <span
+            key={p.provider_id}
+            className="flex items-center gap-1.5 px-2 py-1 border border-[#2E2620] bg-[#1A1612] font-mono text-[9px] tracking-wider text-[#B0A080]"
+          >
+            <img src={`${TMDB_LOGO}${p.logo_path}`} alt="" className="w-3.5 h-3.5 object-cover" />
+            {p.provider_name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ── Title detail drawer ────────────────────────────────────────────────────
+// Opens for a pick and lazily loads /api/title for it.
+export function TitleDrawer({
+  pick,
+  country,
+  onClose,
+}: {
+  pick: RecPick | null;
+  country: string;
+  onClose: () => void;
+}) {
+  const { locale, t, regionName } = useI18n();
+  const [details, setDetails] = useState<TitleDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!pick) return;
+    let cancelled = false;
+    setDetails(null);
+    setError(null);
+    fetch(`/api/title/${pick.mediaType}/${pick.id}?country=${country}&locale=${locale}`)
+      .then(async (r) => {
+        if (!r.ok) throw new Error(((await r.json()) as ApiError).error);
+        return (await r.json()) as TitleDetails;
+      })
+      .then((d) => !cancelled && setDetails(d))
+      .catch((e: unknown) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : t("app.unknownError"));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pick, country, locale]);
+
+  const meta = details
+    ? [details.year, details.certification, formatRuntime(details, t)]
+        .filter(Boolean)
+        .join(" · ")
+    : pick?.year;
+  const { flatrate = [], rent = [], buy = [], link = null } = details?.availability ?? {};
+
+  return (
+    <Dialog.Root open={pick !== null} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className="fixed inset-0 z-40 bg-[#0D0B08CC] animate-fade-in" />
+        <Dialog.Popup
+          className="fixed inset-y-0 right-0 z-50 w-full max-w-md overflow-y-auto
+            bg-[#120F0C] border-l border-[#2E2620] text-[#F2ECD8] animate-slide-in focus:outline-none"
+        >
+          <FilmStrip />
+          <div className="p-5 space-y-5">
+            <div className="flex gap-4">
+              {pick?.posterPath && (
+                <img
+                  src={`${TMDB_POSTER}${pick.posterPath}`}
+                  alt=""
+                  className="w-[84px] shrink-0 self-start"
+                  style={{ aspectRatio: "2/3", boxShadow: "0 0 0 2px #C8281E" }}
+                />
+              )}
+              <div className="flex-1 min-w-0">
+                <Dialog.Title className="font-display text-[1.8rem] leading-none tracking-wider uppercase">
+                  {pick?.title}
+                </Dialog.Title>
+                <p className="font-mono text-[9px] uppercase tracking-[0.18em] text-[#C9922A] mt-1.5">
+                  {meta}
+                </p>
+                {details && details.genres.length > 0 && (
+                  <p className="font-mono text-[9px] uppercase tracking-[0.18em] text-[#8A7050] mt-1">
+                    {details.genres.join(" / ")}
+                  </p>
+                )}
+                {details && details.makers.length > 0 && (
+                  <p className="font-serif italic text-[12px] text-[#A89070] mt-2">
+                    {t(details.mediaType === "movie" ? "title.directedBy" : "title.createdBy")}{" "}
+                    {details.makers.join(", ")}
+                  </p>
+                )}
+              </div>
+              <Dialog.Close
+                className="self-start p-1.5 border border-[#2E2620] text-[#A89070] hover:border-[#4A3828] hover:text-[#C0A880] transition-colors cursor-pointer"
+                aria-label={t("title.close")}
+              >
+                <XIcon size={12} />
+              </Dialog.Close>
+            </div>
+
+            {!details && !error && (
+              <div className="space-y-2">
+                {[0, 1, 2].map((i) => (
+                  <div key={i} className="h-3 bg-[#1A1612] animate-pulse" />
+                ))}
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-start gap-3 px-4 py-3.5 border border-[#5A1A14] bg-[#1A0C0A]">
+                <WarningIcon size={13} weight="duotone" className="text-[#C8281E] shrink-0 mt-0.5" />
+                <p className="font-mono text-[10px] text-[#C05050] leading-relaxed tracking-[0.1em]">
+                  {error}
+                </p>
+              </div>
+            )}
+
+            {details && (
+              <>
+                {details.overview && (
+                  <p className="font-sans text-[12px] text-[#A09080] leading-relaxed">
+                    {details.overview}
+                  </p>
+                )}
+
+                {details.trailers.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {details.trailers.map((t) => (
+                      <a
+                        key={t.key}
+                        href={`https://www.youtube.com/watch?v=${t.key}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="flex items-center gap-2 px-3 py-1.5 border border-[#2E2620] bg-[#1A1612]
+                          font-mono text-[9px] uppercase tracking-[0.2em] text-[#C0A880]
+                          hover:border-[#C8281E60] hover:text-[#F2A898] transition-colors"
+                      >
+                        <PlayIcon size={10} weight="fill" />
+                        {t.name}
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                {details.cast.length > 0 && (
+                  <div>
+                    <p className="font-mono text-[9px] uppercase tracking-[0.3em] text-[#8A7050] mb-2">
+                      {t("title.starring")}
+                    </p>
+                    <ul className="grid grid-cols-2 gap-x-4 gap-y-1.5">
+                      {details.cast.map((m) => (
+                        <li key={`${m.name}-${m.character}`} className="min-w-0">
+                          <p className="font-sans text-[12px] text-[#C0A880] truncate">{m.name}</p>
+                          {m.character && (
+                            <p className="font-mono text-[9px] text-[#6A5840] truncate">{m.character}</p>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div>
+                  <p className="font-mono text-[9px] uppercase tracking-[0.3em] text-[#8A7050] mb-2">
+                    {t("title.whereToWatch", { country: regionName(country) })}
+                  </p>
+                  {flatrate.length + rent.length + buy.length === 0 ? (
+                    <p className="font-mono text-[11px] text-[#7A6848] italic tracking-wider">
+                      {t("title.noAvailability")}
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      <ProviderRow label={t("title.stream")} providers={flatrate} />
+                      <ProviderRow label={t("title.rent")} providers={rent} />
+                      <ProviderRow label={t("title.buy")} providers={buy} />
+                    </div>
+                  )}
+                  {link && (
+                    <a
+                      href={link}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-block mt-3 font-mono text-[8px] uppercase tracking-[0.2em] text-[#7A6848] hover:text-[#C0A880] transition-colors"
+                    >
+                      {t("title.justWatch")}
+                    </a>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+          <FilmStrip />
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
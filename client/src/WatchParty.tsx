@@ -0,0 +1,366 @@
+import { Toggle } from "@base-ui/react/toggle";
+import { ToggleGroup } from "@base-ui/react/toggle-group";
+import {
+  ArrowLeftIcon,
+  CheckCircleIcon,
+  CircleIcon,
+  CrownSimpleIcon,
+  SignOutIcon,
+  SparkleIcon,
+  UsersThreeIcon,
+  WarningIcon,
+} from "@phosphor-icons/react";
+import { useEffect, useState } from "react";
+import { LIMITS, type MediaChoice, type RecPick, type Room, type RoomTicket } from "../../shared/contract";
+import { FilmStrip, pill } from "./decor";
+import { useI18n } from "./i18n";
+import { fetchRoom, storedName } from "./party";
+import { RecCard } from "./RecCard";
+
+const input =
+  "w-full px-3 py-2 border border-[#2E2620] bg-[#0D0B08] font-mono text-[12px] text-[#C0A880] tracking-wider " +
+  "placeholder:text-[#4A3828] focus:outline-none focus:border-[#C8281E60] transition-colors";
+
+const primary =
+  "w-full flex items-center justify-center gap-3 py-3.5 bg-[#C8281E] text-[#F2ECD8] font-display tracking-[0.15em] " +
+  "hover:bg-[#D8301E] active:scale-[0.99] transition-all cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed";
+
+const link =
+  "flex items-center gap-1.5 font-mono text-[9px] uppercase tracking-[0.25em] text-[#7A6848] hover:text-[#C0A880] transition-colors";
+
+// ── Room polling ───────────────────────────────────────────────────────────
+// Everyone's view catches up within a poll; actions apply their response
+// straight away through setRoom.
+const POLL_MS = 2500;
+
+export function useRoom(ticket: RoomTicket | null, active: boolean, onGone: () => void) {
+  const [room, setRoom] = useState<Room | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!ticket) {
+      setRoom(null);
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+    const load = () =>
+      fetchRoom(ticket)
+        .then((r) => {
+          if (cancelled) return;
+          if (r) {
+            setRoom(r);
+            setError(null);
+          } else {
+            onGone();
+          }
+        })
+        .catch((e: unknown) => {
+          if (!cancelled) setError(e instanceof Error ? e.message : t("app.unknownError"));
+        });
+    void load();
+    const timer = active ? setInterval(() => void load(), POLL_MS) : undefined;
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [ticket?.code, ticket?.participantId, active]);
+
+  return { room, error, setRoom };
+}
+
+function ErrorBox({ message }: { message: string }) {
+  return (
+    <div className="flex items-start gap-3 px-4 py-3.5 mb-4 border border-[#5A1A14] bg-[#1A0C0A]">
+      <WarningIcon size={13} weight="duotone" className="text-[#C8281E] shrink-0 mt-0.5" />
+      <p className="font-mono text-[10px] text-[#C05050] leading-relaxed tracking-[0.1em]">
+        {message}
+      </p>
+    </div>
+  );
+}
+
+function Heading({ title, subtitle }: { title: string; subtitle: string }) {
+  const { t } = useI18n();
+  return (
+    <div className="mb-6">
+      <p className="font-mono text-[9px] uppercase tracking-[0.35em] text-[#8A7050] mb-1">
+        — {t("party.section")} —
+      </p>
+      <h2
+        className="font-display leading-none text-[#F2ECD8]"
+        style={{ fontSize: "clamp(2rem, 6vw, 2.6rem)", letterSpacing: "0.04em" }}
+      >
+        {title}
+      </h2>
+      <p className="font-serif italic text-[13px] text-[#A89070] mt-1.5">{subtitle}</p>
+    </div>
+  );
+}
+
+// ── Host or join ───────────────────────────────────────────────────────────
+export function PartyEntry({
+  mediaType,
+  busy,
+  error,
+  onHost,
+  onJoin,
+  onBack,
+}: {
+  mediaType: MediaChoice;
+  busy: boolean;
+  error: string | null;
+  onHost: (name: string, mediaType: MediaChoice) => void;
+  onJoin: (name: string, code: string) => void;
+  onBack: () => void;
+}) {
+  const { t } = useI18n();
+  const [name, setName] = useState(storedName);
+  const [code, setCode] = useState("");
+  const [hostType, setHostType] = useState<MediaChoice>(mediaType);
+  const named = name.trim().length > 0;
+
+  return (
+    <div className="animate-slide-up">
+      <button onClick={onBack} className={`${link} mb-7`}>
+        <ArrowLeftIcon size={10} />
+        {t("app.back")}
+      </button>
+
+      <Heading title={t("party.title")} subtitle={t("party.subtitle")} />
+      {error && <ErrorBox message={error} />}
+
+      <div className="border border-[#2E2620] bg-[#120F0C]">
+        <FilmStrip />
+        <div className="p-5 space-y-6">
+          <label className="block">
+            <span className="block mb-2 font-mono text-[9px] uppercase tracking-[0.3em] text-[#8A7050]">
+              {t("party.name")}
+            </span>
+            <input
+              value={name}
+              maxLength={LIMITS.nameLength}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t("party.namePlaceholder")}
+              className={input}
+            />
+          </label>
+
+          <div className="space-y-3">
+            <span className="block font-mono text-[9px] uppercase tracking-[0.3em] text-[#8A7050]">
+              {t("party.watching")}
+            </span>
+            <ToggleGroup
+              value={[hostType]}
+              onValueChange={(v) => v[0] && setHostType(v[0] as MediaChoice)}
+              className="flex flex-wrap gap-1.5"
+            >
+              {(["movie", "tv", "either"] as const).map((type) => (
+                <Toggle key={type} value={type} className={pill}>
+                  {t(`type.${type}`)}
+                </Toggle>
+              ))}
+            </ToggleGroup>
+            <button
+              disabled={!named || busy}
+              onClick={() => onHost(name.trim(), hostType)}
+              className={primary}
+              style={{ fontSize: "1.15rem" }}
+            >
+              <UsersThreeIcon size={16} weight="fill" />
+              {t("party.host")}
+            </button>
+          </div>
+
+          <div className="pt-5 border-t border-[#2E2620] space-y-3">
+            <span className="block font-mono text-[9px] uppercase tracking-[0.3em] text-[#8A7050]">
+              {t("party.code")}
+            </span>
+            <div className="flex gap-2">
+              <input
+                value={code}
+                maxLength={5}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="ABC23"
+                className={`${input} uppercase tracking-[0.4em]`}
+              />
+              <button
+                disabled={!named || code.trim().length !== 5 || busy}
+                onClick={() => onJoin(name.trim(), code)}
+                className="shrink-0 px-5 border border-[#C8281E] text-[#F2ECD8] font-display tracking-[0.12em]
+                  hover:bg-[#C8281E] transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {t("party.join")}
+              </button>
+            </div>
+          </div>
+        </div>
+        <FilmStrip />
+      </div>
+    </div>
+  );
+}
+
+// ── Room ───────────────────────────────────────────────────────────────────
+// Lobby until the host's search lands, then the picks with a live tally.
+export function PartyRoom({
+  room,
+  error,
+  onEditPreferences,
+  onStart,
+  onVote,
+  onDetails,
+  onLeave,
+  onBack,
+}: {
+  room: Room | null;
+  error: string | null;
+  onEditPreferences: () => void;
+  onStart: () => void;
+  onVote: (index: number | null) => void;
+  onDetails: (pick: RecPick) => void;
+  onLeave: () => void;
+  onBack: () => void;
+}) {
+  const { t } = useI18n();
+  if (!room) {
+    return (
+      <div className="animate-slide-up">
+        {error && <ErrorBox message={error} />}
+        <div className="h-40 border border-[#2E2620] bg-[#120F0C] animate-pulse" />
+      </div>
+    );
+  }
+
+  const you = room.you;
+  const anyReady = room.participants.some((p) => p.ready);
+  const most = Math.max(0, ...room.votes.map((v) => v.length));
+
+  return (
+    <div className="animate-slide-up">
+      <div className="flex items-center justify-between mb-7">
+        <button onClick={onBack} className={link}>
+          <ArrowLeftIcon size={10} />
+          {t("app.back")}
+        </button>
+        <button onClick={onLeave} className={`${link} hover:text-[#C8281E]`}>
+          <SignOutIcon size={10} />
+          {t("party.leave")}
+        </button>
+      </div>
+
+      <Heading title={t("party.roomTitle", { code: room.code })} subtitle={t("party.roomSubtitle")} />
+      {error && <ErrorBox message={error} />}
+
+      {/* Who's in */}
+      <div className="border border-[#2E2620] bg-[#120F0C] mb-4">
+        <FilmStrip />
+        <div className="p-4">
+          <p className="font-mono text-[9px] uppercase tracking-[0.3em] text-[#8A7050] mb-3">
+            {t("party.guests")}
+          </p>
+          <div className="flex flex-wrap gap-1.5">
+            {room.participants.map((p, i) => (
+              <span
+                key={i}
+                className={`flex items-center gap-1.5 px-2 py-1 border font-mono text-[10px] tracking-wider ${
+                  p.ready
+                    ? "border-[#C9922A80] bg-[#C9922A18] text-[#E0B050]"
+                    : "border-[#2E2620] bg-[#1A1612] text-[#7A6848]"
+                }`}
+                title={t(p.ready ? "party.ready" : "party.choosing")}
+              >
+                {p.isHost && <CrownSimpleIcon size={10} weight="fill" />}
+                {p.name}
+                {p.ready ? <CheckCircleIcon size={10} weight="fill" /> : <CircleIcon size={10} />}
+              </span>
+            ))}
+          </div>
+          {you && (
+            <button onClick={onEditPreferences} className={`${link} mt-4`}>
+              <SparkleIcon size={10} />
+              {t(you.ready ? "party.editPrefs" : "party.addPrefs")}
+            </button>
+          )}
+        </div>
+        <FilmStrip />
+      </div>
+
+      {/* Host starts; everyone else waits for the picks */}
+      {you?.isHost ? (
+        <div className="mb-6">
+          <button
+            disabled={!anyReady || room.status === "picking"}
+            onClick={onStart}
+            className={primary}
+            style={{ fontSize: "1.3rem" }}
+          >
+            <UsersThreeIcon size={17} weight="fill" />
+            {room.status === "picking" ? t("party.picking") : t("party.start")}
+          </button>
+          {!anyReady && (
+            <p className="mt-2 font-mono text-[9px] tracking-wider text-[#7A6848] italic">
+              {t("party.startHint")}
+            </p>
+          )}
+        </div>
+      ) : (
+        room.status !== "voting" && (
+          <p className="mb-6 font-mono text-[10px] uppercase tracking-[0.25em] text-[#A89070] animate-pulse">
+            {t(room.status === "picking" ? "party.picking" : "party.waitingForHost")}
+          </p>
+        )
+      )}
+
+      {/* Picks with the live tally */}
+      {room.result && (
+        <div className="border border-[#2E2620] overflow-hidden">
+          {room.result.picks.map((pick, i) => {
+            const voters = room.votes[i] ?? [];
+            const mine = you?.vote === i;
+            const leading = voters.length > 0 && voters.length === most;
+            return (
+              <div key={`${pick.mediaType}:${pick.id}`} className="border-b border-[#2E2620] last:border-b-0">
+                <RecCard
+                  pick={pick}
+                  description={room.result!.descriptions[i] ?? ""}
+                  onDetails={() => onDetails(pick)}
+                />
+                <div className="flex items-center gap-3 px-9 py-2.5 bg-[#161210]">
+                  {you && (
+                    <button
+                      onClick={() => onVote(mine ? null : i)}
+                      className={`shrink-0 px-3 py-1 border font-mono text-[9px] uppercase tracking-[0.2em] transition-colors cursor-pointer ${
+                        mine
+                          ? "border-[#C8281E] bg-[#C8281E] text-[#F2ECD8]"
+                          : "border-[#2E2620] text-[#9A8870] hover:border-[#6A5840] hover:text-[#C0A880]"
+                      }`}
+                    >
+                      {t(mine ? "party.voted" : "party.vote")}
+                    </button>
+                  )}
+                  <div className="flex-1 h-[6px] bg-[#0D0B08] border border-[#2E2620]">
+                    <div
+                      className="h-full transition-all duration-300"
+                      style={{
+                        width: `${(voters.length / Math.max(room.participants.length, 1)) * 100}%`,
+                        background: leading ? "#C9922A" : "#6A2018",
+                      }}
+                    />
+                  </div>
+                  <span
+                    className={`shrink-0 font-mono text-[10px] tracking-wider ${leading ? "text-[#E0B050]" : "text-[#7A6848]"}`}
+                    title={voters.join(", ")}
+                  >
+                    {voters.length}/{room.participants.length}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import {
+  ArrowLeftIcon,
+  CheckCircleIcon,
+  CircleIcon,
+  InfoIcon,
+  TrashIcon,
+  WarningIcon,
+} from "@phosphor-icons/react";
+import type { Provider, WatchlistItem } from "../../shared/contract";
+import { FilmPerfs, FilmStrip } from "./decor";
+import { useI18n } from "./i18n";
+
+const TMDB_IMG = "https://image.tmdb.org/t/p/w185";
+const TMDB_LOGO = "https://image.tmdb.org/t/p/w45";
+
+function ProviderChips({
+  providers,
+  className,
+  prefix,
+}: {
+  providers: Provider[];
+  className: string;
+  prefix?: string;
+}) {
+  return (
+    <>
+      {providers.map((p) => (
+        <span
+          key={p.provider_id}
+          className={`flex items-center gap-1 px-1.5 py-0.5 border font-mono text-[8px] tracking-wider ${className}`}
+        >
+          <img src={`${TMDB_LOGO}${p.logo_path}`} alt="" className="w-3 h-3 object-cover" />
+          {prefix}
+          {p.provider_name}
+        </span>
+      ))}
+    </>
+  );
+}
+
+// ── Watchlist row ──────────────────────────────────────────────────────────
+function WatchlistRow({
+  item,
+  onToggleWatched,
+  onRemove,
+  onDetails,
+}: {
+  item: WatchlistItem;
+  onToggleWatched: () => void;
+  onRemove: () => void;
+  onDetails: () => void;
+}) {
+  const { t } = useI18n();
+  const { providers, arriving, leaving } = item.availability;
+  const watched = item.watchedAt !== null;
+  const action =
+    "flex items-center gap-1.5 font-mono text-[8px] uppercase tracking-[0.15em] transition-colors cursor-pointer";
+
+  return (
+    <div className="flex border-b border-[#2E2620] last:border-b-0">
+      <div className="w-5 shrink-0 bg-[#161210] border-r border-[#2E2620]">
+        <FilmPerfs count={5} />
+      </div>
+
+      <div className={`flex-1 flex gap-4 p-4 bg-[#120F0C] ${watched ? "opacity-60" : ""}`}>
+        {item.posterPath ? (
+          <img
+            src={`${TMDB_IMG}${item.posterPath}`}
+            alt={item.title}
+            className="shrink-0 self-start w-[56px] object-cover"
+            style={{ aspectRatio: "2/3", boxShadow: "0 0 0 2px #C8281E" }}
+          />
+        ) : (
+          <div
+            className="shrink-0 self-start bg-[#1E1A16] border border-[#2E2620]"
+            style={{ width: "56px", aspectRatio: "2/3" }}
+          />
+        )}
+
+        <div className="flex-1 min-w-0 flex flex-col">
+          <p className="font-display text-[1.25rem] leading-none tracking-wider text-[#F2ECD8] uppercase">
+            {item.title}
+          </p>
+          <div className="flex items-center gap-2 mt-1.5 font-mono text-[9px] uppercase tracking-[0.18em]">
+            <span className="shrink-0 px-1 py-px border border-[#C8281E60] text-[#E05A48] text-[8px] leading-none">
+              {t(item.mediaType === "movie" ? "card.film" : "card.series")}
+            </span>
+            <span className="text-[#C9922A]">{item.year}</span>
+          </div>
+
+          {/* Availability on the user's services; changes since the last check stand out */}
+          {!watched && (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              <ProviderChips
+                providers={arriving}
+                prefix="+ "
+                className="border-[#C9922A80] bg-[#C9922A18] text-[#E0B050]"
+              />
+              <ProviderChips
+                providers={leaving}
+                prefix="− "
+                className="border-[#C8281E80] bg-[#C8281E18] text-[#F2A898] line-through"
+              />
+              <ProviderChips
+                providers={providers.filter(
+                  (p) => !arriving.some((a) => a.provider_id === p.provider_id),
+                )}
+                className="border-[#2E2620] bg-[#1A1612] text-[#B0A080]"
+              />
+              {providers.length === 0 && leaving.length === 0 && (
+                <span className="font-mono text-[9px] italic tracking-wider text-[#7A6848]">
+                  {t("watchlist.notOnServices")}
+                </span>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-4 mt-3 pt-2.5 border-t border-[#1E1A16]">
+            <button
+              onClick={onToggleWatched}
+              className={`${action} ${watched ? "text-[#C9922A]" : "text-[#4A3828] hover:text-[#8A7050]"}`}
+            >
+              {watched ? (
+                <CheckCircleIcon size={11} weight="fill" />
+              ) : (
+                <CircleIcon size={11} />
+              )}
+              {t(watched ? "watchlist.watched" : "watchlist.markWatched")}
+            </button>
+            <button
+              onClick={onRemove}
+              className={`${action} text-[#4A3828] hover:text-[#C8281E]`}
+            >
+              <TrashIcon size={11} />
+              {t("watchlist.remove")}
+            </button>
+            <button
+              onClick={onDetails}
+              className={`${action} ml-auto text-[#4A3828] hover:text-[#8A7050]`}
+            >
+              <InfoIcon size={11} />
+              {t("card.details")}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="w-5 shrink-0 bg-[#161210] border-l border-[#2E2620]">
+        <FilmPerfs count={5} />
+      </div>
+    </div>
+  );
+}
+
+// ── Watchlist view ─────────────────────────────────────────────────────────
+// Unwatched titles first; the server has just re-checked their availability.
+export function Watchlist({
+  items,
+  loading,
+  error,
+  onToggleWatched,
+  onRemove,
+  onDetails,
+  onBack,
+}: {
+  items: WatchlistItem[];
+  loading: boolean;
+  error: string | null;
+  onToggleWatched: (item: WatchlistItem) => void;
+  onRemove: (item: WatchlistItem) => void;
+  onDetails: (item: WatchlistItem) => void;
+  onBack: () => void;
+}) {
+  const { t } = useI18n();
+  const sorted = [...items].sort(
+    (a, b) => Number(a.watchedAt !== null) - Number(b.watchedAt !== null),
+  );
+
+  return (
+    <div className="animate-slide-up">
+      <button
+        onClick={onBack}
+        className="flex items-center gap-1.5 mb-7 font-mono text-[9px] uppercase tracking-[0.25em] text-[#7A6848] hover:text-[#C0A880] transition-colors"
+      >
+        <ArrowLeftIcon size={10} />
+        {t("app.back")}
+      </button>
+
+      <div className="mb-6">
+        <p className="font-mono text-[9px] uppercase tracking-[0.35em] text-[#8A7050] mb-1">
+          — {t("watchlist.section")} —
+        </p>
+        <h2
+          className="font-display leading-none text-[#F2ECD8]"
+          style={{ fontSize: "clamp(2rem, 6vw, 2.6rem)", letterSpacing: "0.04em" }}
+        >
+          {t("watchlist.title")}
+        </h2>
+        <p className="font-serif italic text-[13px] text-[#A89070] mt-1.5">
+          {t("watchlist.subtitle")}
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-3 px-4 py-3.5 mb-4 border border-[#5A1A14] bg-[#1A0C0A]">
+          <WarningIcon size={13} weight="duotone" className="text-[#C8281E] shrink-0 mt-0.5" />
+          <p className="font-mono text-[10px] text-[#C05050] leading-relaxed tracking-[0.1em]">
+            {error}
+          </p>
+        </div>
+      )}
+
+      {loading && items.length === 0 ? (
+        <div className="border border-[#2E2620] bg-[#120F0C] overflow-hidden">
+          <FilmStrip />
+          <div className="p-4 space-y-2">
+            {[0, 1, 2].map((i) => (
+              <div key={i} className="h-16 bg-[#1A1612] animate-pulse" />
+            ))}
+          </div>
+          <FilmStrip />
+        </div>
+      ) : sorted.length === 0 ? (
+        !error && (
+          <div className="border border-[#2E2620] bg-[#120F0C] overflow-hidden">
+            <FilmStrip />
+            <p className="p-5 font-mono text-[11px] text-[#7A6848] italic tracking-wider">
+              {t("watchlist.empty")}
+            </p>
+            <FilmStrip />
+          </div>
+        )
+      ) : (
+        <div className="border border-[#2E2620] overflow-hidden">
+          {sorted.map((item) => (
+            <WatchlistRow
+              key={`${item.mediaType}:${item.id}`}
+              item={item}
+              onToggleWatched={() => onToggleWatched(item)}
+              onRemove={() => onRemove(item)}
+              onDetails={() => onDetails(item)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
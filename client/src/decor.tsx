@@ -0,0 +1,65 @@
+// ── Decorative components ──────────────────────────────────────────────────
+
+// Shared pill classes for toggle chips
+export const pill =
+  "px-3 py-1.5 border font-mono text-[10px] uppercase tracking-[0.12em] cursor-pointer select-none transition-all duration-150 " +
+  "bg-[#120F0C] border-[#2E2620] text-[#9A8870] " +
+  "hover:border-[#6A5840] hover:text-[#C0A880] " +
+  "data-[pressed]:bg-[#C8281E] data-[pressed]:border-[#C8281E] data-[pressed]:text-[#F2ECD8]";
+
+// Horizontal film strip with sprocket holes
+export function FilmStrip({ className = "" }: { className?: string }) {
+  return (
+    <div
+      aria-hidden
+      className={`h-[14px] w-full shrink-0 ${className}`}
+      style={{
+        backgroundImage: `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='26' height='14'%3E%3Crect width='26' height='14' fill='%231A1612'/%3E%3Crect x='3' y='2' width='8' height='10' rx='1' fill='%230D0B08'/%3E%3Crect x='15' y='2' width='8' height='10' rx='1' fill='%230D0B08'/%3E%3C/svg%3E")`,
+        backgroundRepeat: "repeat-x",
+        backgroundSize: "26px 14px",
+      }}
+    />
+  );
+}
+
+// Marquee bulb row
+export function MarqueeLights({ className = "" }: { className?: string }) {
+  return (
+    <div className={`flex gap-[5px] overflow-hidden ${className}`} aria-hidden>
+      {Array.from({ length: 120 }).map((_, i) => (
+        <div
+          key={i}
+          className="w-[4px] h-[4px] rounded-full shrink-0"
+          style={{
+            background:
+              i % 5 === 0 ? "#F0DFA0" : i % 5 === 2 ? "#C9922A" : "#2E2418",
+            boxShadow:
+              i % 5 === 0
+                ? "0 0 5px 2px rgba(240,223,160,0.18)"
+                : i % 5 === 2
+                  ? "0 0 4px 1px rgba(201,146,42,0.12)"
+                  : "none",
+            opacity: i % 5 === 0 ? 0.95 : i % 5 === 2 ? 0.65 : 0.2,
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Vertical film perforation strip (for card edges)
+export function FilmPerfs({ count = 5 }: { count?: number }) {
+  return (
+    <div
+      className="flex flex-col justify-evenly items-center py-3 gap-0"
+      aria-hidden
+    >
+      {Array.from({ length: count }).map((_, i) => (
+        <div
+          key={i}
+          className="w-[9px] h-[7px] rounded-[1px] bg-[#0D0B08] border border-[#252018]"
+        />
+      ))}
+    </div>
+  );
+}
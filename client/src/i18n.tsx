@@ -0,0 +1,92 @@
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import { DEFAULT_LOCALE } from "../../shared/contract";
+import { de } from "./locales/de";
+import { en, type Catalog, type MessageKey } from "./locales/en";
+import { es } from "./locales/es";
+
+// ── Locales ────────────────────────────────────────────────────────────────
+// The locale is sent with every request: TMDB localizes titles, overviews and
+// posters with it and the write-ups come back in its language. The UI uses
+// the catalog for its language where there is one, English otherwise.
+export const LOCALES = [
+  { code: "en-US", name: "English (US)" },
+  { code: "en-GB", name: "English (UK)" },
+  { code: "de-DE", name: "Deutsch (Deutschland)" },
+  { code: "de-AT", name: "Deutsch (Österreich)" },
+  { code: "de-CH", name: "Deutsch (Schweiz)" },
+  { code: "es-ES", name: "Español (España)" },
+  { code: "es-MX", name: "Español (México)" },
+  { code: "fr-FR", name: "Français" },
+  { code: "it-IT", name: "Italiano" },
+  { code: "pt-BR", name: "Português (Brasil)" },
+];
+
+const CATALOGS: Record<string, Catalog> = { de, es };
+const LOCALE_KEY = "stw_locale";
+
+function isOffered(code: string | null): code is string {
+  return LOCALES.some((l) => l.code === code);
+}
+
+// Stored choice, else the closest browser language, else English
+function initialLocale(): string {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  if (isOffered(stored)) return stored;
+  for (const lang of navigator.languages ?? [navigator.language]) {
+    const exact = LOCALES.find((l) => l.code.toLowerCase() === lang.toLowerCase());
+    if (exact) return exact.code;
+    const sameLanguage = LOCALES.find((l) => l.code.startsWith(`${lang.slice(0, 2)}-`));
+    if (sameLanguage) return sameLanguage.code;
+  }
+  return DEFAULT_LOCALE;
+}
+
+// ── Translation ────────────────────────────────────────────────────────────
+type Vars = Record<string, string | number>;
+
+interface I18n {
+  locale: string;
+  setLocale: (locale: string) => void;
+  // UI string from the catalog, `{name}` placeholders filled from vars
+  t: (key: MessageKey, vars?: Vars) => string;
+  // Label for a mood/style preset given by its English name
+  tag: (value: string) => string;
+  // Localized country / language name for an ISO code
+  regionName: (code: string) => string;
+  languageName: (code: string) => string;
+}
+
+function createI18n(locale: string, setLocale: (locale: string) => void): I18n {
+  const catalog = CATALOGS[locale.slice(0, 2)];
+  const regions = new Intl.DisplayNames([locale], { type: "region" });
+  const languages = new Intl.DisplayNames([locale], { type: "language" });
+  return {
+    locale,
+    setLocale,
+    t: (key, vars) =>
+      (catalog?.messages[key] ?? en[key]).replace(/\{(\w+)\}/g, (match, name: string) =>
+        vars?.[name] != null ? String(vars[name]) : match,
+      ),
+    tag: (value) => catalog?.tags[value] ?? value,
+    regionName: (code) => regions.of(code) ?? code,
+    languageName: (code) => languages.of(code) ?? code,
+  };
+}
+
+const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE, () => {}));
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocale] = useState(initialLocale);
+  const i18n = useMemo(() => createI18n(locale, setLocale), [locale]);
+
+  useEffect(() => {
+    localStorage.setItem(LOCALE_KEY, locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,180 @@
+import type { Catalog } from "./en";
+
+// ── Deutsch ────────────────────────────────────────────────────────────────
+export const de: Catalog = {
+  messages: {
+    "app.tagline": "zu Ihrem Sehvergnügen präsentiert",
+    "app.settings": "Einstellungen",
+    "app.back": "Zurück",
+    "app.unknownError": "Unbekannter Fehler",
+
+    "setup.section": "Foyer",
+    "setup.title": "Ihr Standort",
+    "setup.subtitle": "Wir finden, was bei Ihnen läuft.",
+    "setup.region": "Region",
+    "setup.language": "Sprache",
+    "setup.services": "Streamingdienste",
+    "setup.selected": "· {count} ausgewählt",
+    "setup.noProviders": "Keine Anbieter für diese Region gefunden",
+    "setup.enter": "INS KINO",
+
+    "type.section": "Jetzt im Programm",
+    "type.title": "Was zeigen wir heute?",
+    "type.movie": "Spielfilm",
+    "type.movieSub": "Eine Geschichte, ein Abend",
+    "type.tv": "Fernsehen",
+    "type.tvSub": "Serien & Folgen",
+    "type.either": "Doppelvorstellung",
+    "type.eitherSub": "Film oder Serie — was passt",
+    "type.changeRegion": "Region ändern",
+
+    "prefs.section": "Programm",
+    "prefs.title": "Stellen Sie Ihr Programm zusammen",
+    "prefs.subtitle": "Alles optional — jede Kombination geht.",
+    "prefs.genre": "Genre",
+    "prefs.mood": "Stimmung",
+    "prefs.style": "Stil",
+    "prefs.describe": "Beschreiben",
+    "prefs.optional": "(optional)",
+    "prefs.describePlaceholder": "z. B. „Wie Arrival, aber emotionaler…“",
+    "prefs.submit": "LICHT AUS",
+
+    "filters.title": "Filter",
+    "filters.year.movie": "Erscheinungsjahr",
+    "filters.year.tv": "Erstausstrahlung",
+    "filters.year.either": "Erscheinung / Erstausstrahlung",
+    "filters.yearFrom": "Frühestes Jahr",
+    "filters.yearTo": "Spätestes Jahr",
+    "filters.runtime.movie": "Laufzeit",
+    "filters.runtime.tv": "Folgenlänge",
+    "filters.runtime.either": "Laufzeit / Folgenlänge",
+    "filters.runtimeMin": "Kürzeste Laufzeit",
+    "filters.runtimeMax": "Längste Laufzeit",
+    "filters.minutes": "Min.",
+    "filters.language": "Originalsprache",
+    "filters.minRating": "Mindestbewertung",
+    "filters.minVotes": "Mindestanzahl Stimmen",
+    "filters.any": "Egal",
+
+    "results.section": "Jetzt läuft",
+    "results.finding": "Suche Ihren Film…",
+    "results.title": "Das heutige Programm",
+    "results.subtitle": "Für Ihr Sehvergnügen zusammengestellt.",
+    "results.searching": "Durchsuche das Archiv…",
+    "results.found": "{count} Titel gefunden",
+    "results.ready": "Programm steht",
+    "results.selecting": "Wähle die besten Treffer…",
+    "results.stop": "Stopp",
+    "results.stopped": "Suche gestoppt",
+    "results.error": "Etwas ist schiefgelaufen: {error}",
+    "results.swapFailed": "Austausch fehlgeschlagen: {error}",
+    "results.fallback": "Der KI-Kurator ist gerade nicht erreichbar – diese Auswahl wurde automatisch aus deinen Angaben zusammengestellt.",
+    "results.rateLimited": "Zu viele Anfragen — kurz durchatmen und in {seconds} s erneut versuchen.",
+    "results.retryReady": "Bereit, wenn Sie es sind — noch einmal versuchen.",
+    "results.tooManyRequests": "Zu viele Anfragen",
+    "results.outdated": "Die App wurde aktualisiert — bitte laden Sie die Seite neu.",
+    "results.noBody": "Leere Antwort",
+    "results.closedEarly": "Verbindung vorzeitig geschlossen",
+    "results.rated": "Titel bewertet",
+    "results.refine": "VORSCHLÄGE VERFEINERN",
+    "results.copied": "Kopiert",
+    "results.copyLink": "Link kopieren",
+    "results.tryAgain": "Noch einmal",
+    "results.newSearch": "Neue Suche",
+
+    "card.film": "Film",
+    "card.series": "Serie",
+    "card.like": "Gefällt mir",
+    "card.liked": "Gefällt mir",
+    "card.dislike": "Nichts für mich",
+    "card.details": "Details",
+    "card.save": "Merken",
+    "card.saved": "Gemerkt",
+    "card.streamingOn": "Im Stream bei",
+    "card.whereToWatch": "Wo läuft es ↗",
+    "card.swap": "Austauschen",
+    "card.swapping": "Tausche…",
+    "card.moreLike": "Mehr davon",
+
+    "party.open": "Watch-Party",
+    "party.section": "Watch-Party",
+    "party.title": "Gemeinsam schauen",
+    "party.subtitle": "Alle geben ihren Geschmack am eigenen Handy ein, dann stimmt die Runde ab.",
+    "party.name": "Dein Name",
+    "party.namePlaceholder": "z. B. Sam",
+    "party.watching": "Heute im Programm",
+    "party.host": "RAUM ERÖFFNEN",
+    "party.code": "Oder mit Code beitreten",
+    "party.join": "BEITRETEN",
+    "party.roomTitle": "Raum {code}",
+    "party.roomSubtitle": "Teilt den Code — alle geben ihre Wünsche am eigenen Gerät ein.",
+    "party.guests": "Im Raum",
+    "party.ready": "Bereit",
+    "party.choosing": "Wählt noch",
+    "party.addPrefs": "Meine Wünsche eintragen",
+    "party.editPrefs": "Meine Wünsche ändern",
+    "party.send": "AN DEN RAUM SENDEN",
+    "party.start": "UNSERE AUSWAHL",
+    "party.startHint": "Noch hat niemand Wünsche geschickt.",
+    "party.waitingForHost": "Warten auf den Gastgeber…",
+    "party.picking": "Auswahl für die Runde läuft…",
+    "party.vote": "Abstimmen",
+    "party.voted": "Deine Stimme",
+    "party.leave": "Raum verlassen",
+    "party.backToRoom": "Im Raum abstimmen",
+    "party.gone": "Dieser Raum ist geschlossen.",
+
+    "title.seasons": "{count} Staffeln",
+    "title.season": "1 Staffel",
+    "title.episodes": "Folgen à {minutes} Min.",
+    "title.directedBy": "Regie:",
+    "title.createdBy": "Erdacht von",
+    "title.close": "Schließen",
+    "title.starring": "Besetzung",
+    "title.whereToWatch": "Verfügbar · {country}",
+    "title.noAvailability": "Für diese Region ist nichts verzeichnet",
+    "title.stream": "Stream",
+    "title.rent": "Leihen",
+    "title.buy": "Kaufen",
+    "title.justWatch": "Verfügbarkeit via JustWatch ↗",
+
+    "watchlist.open": "Merkliste",
+    "watchlist.section": "Für später",
+    "watchlist.title": "Ihre Merkliste",
+    "watchlist.subtitle": "Für einen anderen Kinoabend.",
+    "watchlist.empty": "Noch nichts gemerkt — tippen Sie bei einem Vorschlag auf Merken.",
+    "watchlist.notOnServices": "Derzeit nicht bei Ihren Diensten",
+    "watchlist.markWatched": "Als gesehen markieren",
+    "watchlist.watched": "Gesehen",
+    "watchlist.remove": "Entfernen",
+
+    "shared.section": "Eine Empfehlung für Sie",
+    "shared.movie": "Spielfilm",
+    "shared.tv": "Fernsehen",
+    "shared.either": "Film & Fernsehen",
+    "shared.findYourOwn": "SELBST SUCHEN",
+  },
+  tags: {
+    "Cozy & warm": "Gemütlich & warm",
+    "Dark & gritty": "Düster & rau",
+    "Funny & light": "Lustig & leicht",
+    "Thrilling & tense": "Packend & spannend",
+    Heartwarming: "Herzerwärmend",
+    "Mind-bending": "Verwirrend",
+    Nostalgic: "Nostalgisch",
+    Romantic: "Romantisch",
+    "Weird & surreal": "Schräg & surreal",
+    Inspirational: "Inspirierend",
+
+    Animated: "Animiert",
+    "Live-action": "Realfilm",
+    "CGI-heavy": "Viel CGI",
+    "Practical effects": "Handgemachte Effekte",
+    "Black & white": "Schwarz-Weiß",
+    "Shot on film": "Auf Film gedreht",
+    "Widescreen epic": "Breitwand-Epos",
+    "Found footage": "Found Footage",
+    "Stop motion": "Stop-Motion",
+    Docustyle: "Dokustil",
+  },
+};
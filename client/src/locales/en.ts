@@ -0,0 +1,165 @@
+// ── English (source catalog) ───────────────────────────────────────────────
+// Every UI string lives here; other catalogs translate a subset and fall back
+// to these. `{name}` placeholders are filled in by t().
+export const en = {
+  "app.tagline": "presented for your viewing pleasure",
+  "app.settings": "Settings",
+  "app.back": "Back",
+  "app.unknownError": "Unknown error",
+
+  "setup.section": "Lobby",
+  "setup.title": "Set Your Location",
+  "setup.subtitle": "We'll find what's playing near you.",
+  "setup.region": "Region",
+  "setup.language": "Language",
+  "setup.services": "Streaming Services",
+  "setup.selected": "· {count} selected",
+  "setup.noProviders": "No providers found for this region",
+  "setup.enter": "ENTER THE CINEMA",
+
+  "type.section": "Now Showing",
+  "type.title": "What Shall We Screen?",
+  "type.movie": "Feature Film",
+  "type.movieSub": "A single story, one sitting",
+  "type.tv": "Television",
+  "type.tvSub": "Series & episodes",
+  "type.either": "Double Feature",
+  "type.eitherSub": "Films or series — whatever fits",
+  "type.changeRegion": "Change Region",
+
+  "prefs.section": "Programme",
+  "prefs.title": "Curate Your Selection",
+  "prefs.subtitle": "All optional — any combination works.",
+  "prefs.genre": "Genre",
+  "prefs.mood": "Mood",
+  "prefs.style": "Style",
+  "prefs.describe": "Describe It",
+  "prefs.optional": "(optional)",
+  "prefs.describePlaceholder": "e.g. 'Something like Arrival but more emotional…'",
+  "prefs.submit": "LIGHTS DOWN",
+
+  "filters.title": "Filters",
+  "filters.year.movie": "Release year",
+  "filters.year.tv": "First aired",
+  "filters.year.either": "Release / first aired",
+  "filters.yearFrom": "Earliest year",
+  "filters.yearTo": "Latest year",
+  "filters.runtime.movie": "Runtime",
+  "filters.runtime.tv": "Episode length",
+  "filters.runtime.either": "Runtime / episode length",
+  "filters.runtimeMin": "Shortest runtime",
+  "filters.runtimeMax": "Longest runtime",
+  "filters.minutes": "min",
+  "filters.language": "Original language",
+  "filters.minRating": "Minimum rating",
+  "filters.minVotes": "Minimum votes",
+  "filters.any": "Any",
+
+  "results.section": "Now Playing",
+  "results.finding": "Finding Your Film…",
+  "results.title": "Tonight's Selection",
+  "results.subtitle": "Curated for your viewing pleasure.",
+  "results.searching": "Searching Archives…",
+  "results.found": "Found {count} Titles",
+  "results.ready": "Programme Ready",
+  "results.selecting": "Selecting Best Matches…",
+  "results.stop": "Stop",
+  "results.stopped": "Search Stopped",
+  "results.error": "Something went wrong: {error}",
+  "results.swapFailed": "Couldn't swap that pick: {error}",
+  "results.fallback": "The AI curator is unavailable right now, so these picks were ranked automatically from your choices.",
+  "results.rateLimited": "Too many requests — take a breath and try again in {seconds}s.",
+  "results.retryReady": "Ready when you are — try again.",
+  "results.tooManyRequests": "Too many requests",
+  "results.outdated": "The app was updated — please reload the page.",
+  "results.noBody": "No response body",
+  "results.closedEarly": "Connection closed early",
+  "results.rated": "picks rated",
+  "results.refine": "REFINE MY PICKS",
+  "results.copied": "Copied",
+  "results.copyLink": "Copy Link",
+  "results.tryAgain": "Try Again",
+  "results.newSearch": "New Search",
+
+  "card.film": "Film",
+  "card.series": "Series",
+  "card.like": "Like",
+  "card.liked": "Liked",
+  "card.dislike": "Not for me",
+  "card.details": "Details",
+  "card.save": "Save",
+  "card.saved": "Saved",
+  "card.streamingOn": "Streaming on",
+  "card.whereToWatch": "Where to watch ↗",
+  "card.swap": "Swap",
+  "card.swapping": "Swapping…",
+  "card.moreLike": "More like this",
+
+  "party.open": "Watch party",
+  "party.section": "Watch Party",
+  "party.title": "Watch Together",
+  "party.subtitle": "Everyone adds their taste from their own phone, then the group votes.",
+  "party.name": "Your Name",
+  "party.namePlaceholder": "e.g. Sam",
+  "party.watching": "Tonight's Bill",
+  "party.host": "HOST A ROOM",
+  "party.code": "Or Join With a Code",
+  "party.join": "JOIN",
+  "party.roomTitle": "Room {code}",
+  "party.roomSubtitle": "Share the code — everyone adds their preferences on their own device.",
+  "party.guests": "In the Room",
+  "party.ready": "Ready",
+  "party.choosing": "Still choosing",
+  "party.addPrefs": "Add My Preferences",
+  "party.editPrefs": "Change My Preferences",
+  "party.send": "SEND TO THE ROOM",
+  "party.start": "GET OUR PICKS",
+  "party.startHint": "Waiting for someone to send their preferences.",
+  "party.waitingForHost": "Waiting for the host to start…",
+  "party.picking": "Finding the group's picks…",
+  "party.vote": "Vote",
+  "party.voted": "Your Vote",
+  "party.leave": "Leave Room",
+  "party.backToRoom": "Vote in the Room",
+  "party.gone": "That room has closed.",
+
+  "title.seasons": "{count} seasons",
+  "title.season": "1 season",
+  "title.episodes": "{minutes}m episodes",
+  "title.directedBy": "Directed by",
+  "title.createdBy": "Created by",
+  "title.close": "Close",
+  "title.starring": "Starring",
+  "title.whereToWatch": "Where to Watch · {country}",
+  "title.noAvailability": "No availability listed for this region",
+  "title.stream": "Stream",
+  "title.rent": "Rent",
+  "title.buy": "Buy",
+  "title.justWatch": "Availability via JustWatch ↗",
+
+  "watchlist.open": "Watchlist",
+  "watchlist.section": "Saved for Later",
+  "watchlist.title": "Your Watchlist",
+  "watchlist.subtitle": "For another night at the pictures.",
+  "watchlist.empty": "Nothing saved yet — tap Save on a pick to keep it here.",
+  "watchlist.notOnServices": "Not on your services right now",
+  "watchlist.markWatched": "Mark watched",
+  "watchlist.watched": "Watched",
+  "watchlist.remove": "Remove",
+
+  "shared.section": "A Friend Recommends",
+  "shared.movie": "Feature film",
+  "shared.tv": "Television",
+  "shared.either": "Film & television",
+  "shared.findYourOwn": "FIND YOUR OWN",
+};
+
+export type MessageKey = keyof typeof en;
+
+export interface Catalog {
+  messages: Partial<Record<MessageKey, string>>;
+  // Mood and style presets. Their English names are what the server receives,
+  // so they double as keys and as the fallback label. Genres come from TMDB
+  // already localized.
+  tags: Record<string, string>;
+}
@@ -0,0 +1,180 @@
+import type { Catalog } from "./en";
+
+// ── Español ────────────────────────────────────────────────────────────────
+export const es: Catalog = {
+  messages: {
+    "app.tagline": "presentado para su disfrute",
+    "app.settings": "Ajustes",
+    "app.back": "Atrás",
+    "app.unknownError": "Error desconocido",
+
+    "setup.section": "Vestíbulo",
+    "setup.title": "Elige tu ubicación",
+    "setup.subtitle": "Buscaremos lo que está en cartelera cerca de ti.",
+    "setup.region": "Región",
+    "setup.language": "Idioma",
+    "setup.services": "Servicios de streaming",
+    "setup.selected": "· {count} seleccionados",
+    "setup.noProviders": "No hay proveedores para esta región",
+    "setup.enter": "ENTRAR AL CINE",
+
+    "type.section": "En cartelera",
+    "type.title": "¿Qué proyectamos?",
+    "type.movie": "Largometraje",
+    "type.movieSub": "Una historia, una sentada",
+    "type.tv": "Televisión",
+    "type.tvSub": "Series y episodios",
+    "type.either": "Sesión doble",
+    "type.eitherSub": "Películas o series — lo que encaje",
+    "type.changeRegion": "Cambiar región",
+
+    "prefs.section": "Programa",
+    "prefs.title": "Arma tu selección",
+    "prefs.subtitle": "Todo es opcional — cualquier combinación vale.",
+    "prefs.genre": "Género",
+    "prefs.mood": "Ánimo",
+    "prefs.style": "Estilo",
+    "prefs.describe": "Descríbelo",
+    "prefs.optional": "(opcional)",
+    "prefs.describePlaceholder": "p. ej. «Algo como La llegada pero más emotivo…»",
+    "prefs.submit": "SE APAGAN LAS LUCES",
+
+    "filters.title": "Filtros",
+    "filters.year.movie": "Año de estreno",
+    "filters.year.tv": "Primera emisión",
+    "filters.year.either": "Estreno / primera emisión",
+    "filters.yearFrom": "Año más antiguo",
+    "filters.yearTo": "Año más reciente",
+    "filters.runtime.movie": "Duración",
+    "filters.runtime.tv": "Duración del episodio",
+    "filters.runtime.either": "Duración / episodio",
+    "filters.runtimeMin": "Duración mínima",
+    "filters.runtimeMax": "Duración máxima",
+    "filters.minutes": "min",
+    "filters.language": "Idioma original",
+    "filters.minRating": "Valoración mínima",
+    "filters.minVotes": "Votos mínimos",
+    "filters.any": "Cualquiera",
+
+    "results.section": "En pantalla",
+    "results.finding": "Buscando tu película…",
+    "results.title": "La selección de esta noche",
+    "results.subtitle": "Elegida para tu disfrute.",
+    "results.searching": "Buscando en el archivo…",
+    "results.found": "{count} títulos encontrados",
+    "results.ready": "Programa listo",
+    "results.selecting": "Eligiendo las mejores opciones…",
+    "results.stop": "Detener",
+    "results.stopped": "Búsqueda detenida",
+    "results.error": "Algo salió mal: {error}",
+    "results.swapFailed": "No se pudo cambiar: {error}",
+    "results.fallback": "El curador de IA no está disponible ahora mismo, así que estas sugerencias se ordenaron automáticamente según tus preferencias.",
+    "results.rateLimited": "Demasiadas solicitudes — respira y vuelve a intentarlo en {seconds} s.",
+    "results.retryReady": "Cuando quieras — inténtalo de nuevo.",
+    "results.tooManyRequests": "Demasiadas solicitudes",
+    "results.outdated": "La aplicación se ha actualizado — recarga la página.",
+    "results.noBody": "Respuesta vacía",
+    "results.closedEarly": "La conexión se cerró antes de tiempo",
+    "results.rated": "títulos valorados",
+    "results.refine": "AFINAR MIS OPCIONES",
+    "results.copied": "Copiado",
+    "results.copyLink": "Copiar enlace",
+    "results.tryAgain": "Otra vez",
+    "results.newSearch": "Nueva búsqueda",
+
+    "card.film": "Película",
+    "card.series": "Serie",
+    "card.like": "Me gusta",
+    "card.liked": "Me gusta",
+    "card.dislike": "No es para mí",
+    "card.details": "Detalles",
+    "card.save": "Guardar",
+    "card.saved": "Guardado",
+    "card.streamingOn": "En streaming en",
+    "card.whereToWatch": "Dónde verla ↗",
+    "card.swap": "Cambiar",
+    "card.swapping": "Cambiando…",
+    "card.moreLike": "Más como esta",
+
+    "party.open": "Noche de pelis",
+    "party.section": "Noche de pelis",
+    "party.title": "Ver en grupo",
+    "party.subtitle": "Cada uno elige desde su móvil y luego el grupo vota.",
+    "party.name": "Tu nombre",
+    "party.namePlaceholder": "p. ej. Sam",
+    "party.watching": "Programa de hoy",
+    "party.host": "CREAR SALA",
+    "party.code": "O únete con un código",
+    "party.join": "UNIRSE",
+    "party.roomTitle": "Sala {code}",
+    "party.roomSubtitle": "Comparte el código: cada uno añade sus preferencias desde su dispositivo.",
+    "party.guests": "En la sala",
+    "party.ready": "Listo",
+    "party.choosing": "Aún eligiendo",
+    "party.addPrefs": "Añadir mis preferencias",
+    "party.editPrefs": "Cambiar mis preferencias",
+    "party.send": "ENVIAR A LA SALA",
+    "party.start": "NUESTRA SELECCIÓN",
+    "party.startHint": "Nadie ha enviado sus preferencias todavía.",
+    "party.waitingForHost": "Esperando al anfitrión…",
+    "party.picking": "Buscando la selección del grupo…",
+    "party.vote": "Votar",
+    "party.voted": "Tu voto",
+    "party.leave": "Salir de la sala",
+    "party.backToRoom": "Votar en la sala",
+    "party.gone": "Esa sala ya está cerrada.",
+
+    "title.seasons": "{count} temporadas",
+    "title.season": "1 temporada",
+    "title.episodes": "episodios de {minutes} min",
+    "title.directedBy": "Dirigida por",
+    "title.createdBy": "Creada por",
+    "title.close": "Cerrar",
+    "title.starring": "Reparto",
+    "title.whereToWatch": "Dónde verla · {country}",
+    "title.noAvailability": "No hay disponibilidad para esta región",
+    "title.stream": "Streaming",
+    "title.rent": "Alquiler",
+    "title.buy": "Compra",
+    "title.justWatch": "Disponibilidad vía JustWatch ↗",
+
+    "watchlist.open": "Mi lista",
+    "watchlist.section": "Para más tarde",
+    "watchlist.title": "Tu lista",
+    "watchlist.subtitle": "Para otra noche de cine.",
+    "watchlist.empty": "Aún no has guardado nada — pulsa Guardar en una recomendación.",
+    "watchlist.notOnServices": "Ahora no está en tus servicios",
+    "watchlist.markWatched": "Marcar como vista",
+    "watchlist.watched": "Vista",
+    "watchlist.remove": "Quitar",
+
+    "shared.section": "Un amigo te recomienda",
+    "shared.movie": "Largometraje",
+    "shared.tv": "Televisión",
+    "shared.either": "Cine y televisión",
+    "shared.findYourOwn": "BUSCA LA TUYA",
+  },
+  tags: {
+    "Cozy & warm": "Acogedor y cálido",
+    "Dark & gritty": "Oscuro y crudo",
+    "Funny & light": "Divertido y ligero",
+    "Thrilling & tense": "Trepidante y tenso",
+    Heartwarming: "Entrañable",
+    "Mind-bending": "Alucinante",
+    Nostalgic: "Nostálgico",
+    Romantic: "Romántico",
+    "Weird & surreal": "Raro y surrealista",
+    Inspirational: "Inspirador",
+
+    Animated: "Animada",
+    "Live-action": "Imagen real",
+    "CGI-heavy": "Mucho CGI",
+    "Practical effects": "Efectos prácticos",
+    "Black & white": "Blanco y negro",
+    "Shot on film": "Rodada en celuloide",
+    "Widescreen epic": "Épica panorámica",
+    "Found footage": "Metraje encontrado",
+    "Stop motion": "Stop motion",
+    Docustyle: "Estilo documental",
+  },
+};
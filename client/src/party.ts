@@ -0,0 +1,91 @@
+import type {
+  ApiError,
+  Room,
+  RoomCreate,
+  RoomPreferences,
+  RoomSession,
+  RoomTicket,
+} from "../../shared/contract";
+
+// ── Watch party rooms ──────────────────────────────────────────────────────
+// The ticket for the current room lives in localStorage, so a reload rejoins
+// it; the name is remembered for the next party.
+const TICKET_KEY = "stw_party";
+const NAME_KEY = "stw_party_name";
+
+export function storedTicket(): RoomTicket | null {
+  try {
+    const raw = localStorage.getItem(TICKET_KEY);
+    return raw ? (JSON.parse(raw) as RoomTicket) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeTicket(ticket: RoomTicket | null) {
+  if (ticket) localStorage.setItem(TICKET_KEY, JSON.stringify(ticket));
+  else localStorage.removeItem(TICKET_KEY);
+}
+
+export function storedName(): string {
+  return localStorage.getItem(NAME_KEY) ?? "";
+}
+
+async function roomRequest(path: string, init?: RequestInit): Promise<Response> {
+  const res = await fetch(path, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  if (!res.ok) {
+    let message = `HTTP ${res.status}`;
+    try {
+      message = ((await res.json()) as ApiError).error ?? message;
+    } catch {
+      /* noop */
+    }
+    throw new Error(message);
+  }
+  return res;
+}
+
+export async function createRoom(input: RoomCreate): Promise<RoomSession> {
+  localStorage.setItem(NAME_KEY, input.name);
+  const res = await roomRequest("/api/rooms", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return (await res.json()) as RoomSession;
+}
+
+export async function joinRoom(code: string, name: string): Promise<RoomSession> {
+  localStorage.setItem(NAME_KEY, name);
+  const res = await roomRequest(`/api/rooms/${encodeURIComponent(code.trim())}/participants`, {
+    method: "POST",
+    body: JSON.stringify({ name }),
+  });
+  return (await res.json()) as RoomSession;
+}
+
+// Resolves to null once the room is gone (expired, or a stale ticket)
+export async function fetchRoom(ticket: RoomTicket): Promise<Room | null> {
+  const res = await fetch(`/api/rooms/${ticket.code}?participant=${ticket.participantId}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return (await res.json()) as Room;
+}
+
+export async function sendPreferences(ticket: RoomTicket, prefs: RoomPreferences): Promise<Room> {
+  const res = await roomRequest(`/api/rooms/${ticket.code}/participants/${ticket.participantId}`, {
+    method: "PUT",
+    body: JSON.stringify(prefs),
+  });
+  return (await res.json()) as Room;
+}
+
+export async function castVote(ticket: RoomTicket, index: number | null): Promise<Room> {
+  const res = await roomRequest(
+    `/api/rooms/${ticket.code}/participants/${ticket.participantId}/vote`,
+    { method: "PUT", body: JSON.stringify({ index }) },
+  );
+  return (await res.json()) as Room;
+}
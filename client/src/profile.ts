@@ -0,0 +1,117 @@
+import type {
+  ApiError,
+  FeedbackInput,
+  MediaType,
+  Profile,
+  ProfileSettings,
+  WatchlistInput,
+  WatchlistItem,
+} from "../../shared/contract";
+
+// ── Server-side profile ────────────────────────────────────────────────────
+// The anonymous profile token lives in localStorage next to the settings it
+// mirrors. Everything here is best-effort: the app keeps working offline.
+const PROFILE_KEY = "stw_profile";
+
+export function storedProfileId(): string | null {
+  return localStorage.getItem(PROFILE_KEY);
+}
+
+async function createProfile(settings: ProfileSettings): Promise<Profile> {
+  const res = await fetch("/api/profiles", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(settings),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return (await res.json()) as Profile;
+}
+
+// Pushes settings to the stored profile, creating a fresh one if there is none
+// or the server no longer knows it. Resolves to the profile id, or null on failure.
+export async function syncProfile(settings: ProfileSettings): Promise<string | null> {
+  try {
+    const id = storedProfileId();
+    if (id) {
+      const res = await fetch(`/api/profiles/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      if (res.ok) return id;
+      if (res.status !== 404 && res.status !== 400) return null;
+    }
+    const profile = await createProfile(settings);
+    localStorage.setItem(PROFILE_KEY, profile.id);
+    return profile.id;
+  } catch {
+    return null;
+  }
+}
+
+export function sendFeedback(profileId: string, input: FeedbackInput) {
+  void fetch(`/api/profiles/${profileId}/feedback`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  }).catch(() => {
+    /* noop */
+  });
+}
+
+// ── Watchlist ──────────────────────────────────────────────────────────────
+// Unlike feedback these report failures, so the UI can roll back.
+type WatchlistKey = { id: number; mediaType: MediaType };
+
+async function watchlistRequest(path: string, init?: RequestInit): Promise<Response> {
+  const res = await fetch(path, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  if (!res.ok) {
+    let message = `HTTP ${res.status}`;
+    try {
+      message = ((await res.json()) as ApiError).error ?? message;
+    } catch {
+      /* noop */
+    }
+    throw new Error(message);
+  }
+  return res;
+}
+
+// Re-checks availability on the server, so call it when the list is shown
+export async function fetchWatchlist(profileId: string): Promise<WatchlistItem[]> {
+  const res = await watchlistRequest(`/api/profiles/${profileId}/watchlist`);
+  return ((await res.json()) as { items: WatchlistItem[] }).items;
+}
+
+export async function saveToWatchlist(
+  profileId: string,
+  input: WatchlistInput,
+): Promise<WatchlistItem> {
+  const res = await watchlistRequest(`/api/profiles/${profileId}/watchlist`, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return (await res.json()) as WatchlistItem;
+}
+
+export async function setWatched(
+  profileId: string,
+  key: WatchlistKey,
+  watched: boolean,
+): Promise<WatchlistItem> {
+  const res = await watchlistRequest(
+    `/api/profiles/${profileId}/watchlist/${key.mediaType}/${key.id}`,
+    { method: "PATCH", body: JSON.stringify({ watched }) },
+  );
+  return (await res.json()) as WatchlistItem;
+}
+
+export async function removeFromWatchlist(profileId: string, key: WatchlistKey): Promise<void> {
+  await watchlistRequest(
+    `/api/profiles/${profileId}/watchlist/${key.mediaType}/${key.id}`,
+    { method: "DELETE" },
+  );
+}
@@ -0,0 +1,911 @@
+import { readFileSync } from 'fs'
+import { serveStatic } from '@hono/node-server/serve-static'
+import { Hono } from 'hono'
+import { cors } from 'hono/cors'
+import {
+  encodeEvent,
+  RECOMMEND_CONTENT_TYPE,
+  PROTOCOL_VERSION,
+  type RecommendEvent,
+} from '../../shared/protocol.js'
+import {
+  CountrySchema,
+  GenresQuerySchema,
+  PickRequestSchema,
+  RecommendRequestSchema,
+  RegionsQuerySchema,
+  TitleParamsSchema,
+  type ApiError,
+  type FeedbackEntry,
+  type MediaType,
+  type ParsedFilters,
+  type PickResponse,
+  type Provider,
+  type RecPick,
+} from '../../shared/contract.js'
+import { tmdbFetch, TmdbError } from './tmdb.js'
+import { llm, llmConfigError } from './llm.js'
+import { getStreamingOptions, getTitleDetails, type StreamingOptions } from './title.js'
+import { genreIds, genreNames, getGenres, getRegions } from './catalog.js'
+import { tagKeywordNames, tagQueries } from './keywords.js'
+import { rankPool, type RankQuery } from './ranking.js'
+import { badRequest } from './http.js'
+import { feedbackKey, mergeFeedback, profileRoutes, storedFeedback } from './profiles.js'
+import { createStore, rateLimit } from './rateLimit.js'
+import { getShare, saveShare, shareRoutes } from './shares.js'
+import { watchedTitles, watchlistRoutes } from './watchlist.js'
+import { finishRoomSearch, roomRoutes, startRoomSearch } from './rooms.js'
+import { getSession, saveSession, type PoolItem, type TmdbItem, type TmdbList } from './sessions.js'
+import { ogRoutes, sharePageHtml } from './og.js'
+
+// ── Hard filters ───────────────────────────────────────────────────────────
+// Movies and TV name their date params differently; runtime, language and
+// vote thresholds are shared (runtime is per episode on TV).
+const DEFAULT_MIN_RATING = 5.5
+const DEFAULT_MIN_VOTES = 40
+
+function filterParams(mediaType: MediaType, f: ParsedFilters): Record<string, string> {
+  const date = mediaType === 'movie' ? 'primary_release_date' : 'first_air_date'
+  const params: Record<string, string> = {
+    'vote_count.gte': String(f.minVotes ?? DEFAULT_MIN_VOTES),
+    'vote_average.gte': String(f.minRating ?? DEFAULT_MIN_RATING),
+  }
+  if (f.yearFrom != null) params[`${date}.gte`] = `${f.yearFrom}-01-01`
+  if (f.yearTo != null) params[`${date}.lte`] = `${f.yearTo}-12-31`
+  if (f.runtimeMin != null) params['with_runtime.gte'] = String(f.runtimeMin)
+  if (f.runtimeMax != null) params['with_runtime.lte'] = String(f.runtimeMax)
+  if (f.languages.length > 0) params.with_original_language = f.languages.join('|')
+  return params
+}
+
+// Liked titles whose TMDB recommendations/similar lists seed the pool
+const LIKED_SEED_LIMIT = 5
+
+// ── Pool size ──────────────────────────────────────────────────────────────
+// Discover is paged until POOL_SIZE unseen titles are in hand or the page
+// budget (per media type, first pages included) runs out. The selection
+// prompt lists at most POOL_SIZE titles.
+const POOL_SIZE = 30
+const DISCOVER_PAGE_BUDGET = 12
+// Priority results (anchor, description, mood/style and seed matches) lead the
+// prompt in source order, but only up to this many; the rest compete in the
+// local ranking, so a few busy chips can't crowd it out
+const PRIORITY_SLOTS = POOL_SIZE / 2
+
+// One sort order of /discover for one media type, paged on demand
+interface DiscoverFeed {
+  type: MediaType
+  params: Record<string, string>
+  initialPages: number
+  nextPage: number
+  live: boolean
+}
+
+// Picks that fail the streaming check are replaced up to this many cards,
+// looking at no more than REPLACEMENT_CHECKS spare pool titles
+const MIN_PICKS = 3
+const REPLACEMENT_CHECKS = 8
+
+// Picks taken straight from the local ranking when the selection model fails
+const FALLBACK_PICKS = 3
+
+// ── Feedback labels ────────────────────────────────────────────────────────
+// "Dune (2021)" rather than "Dune", so the model knows which one was meant
+function feedbackLabel(t: FeedbackEntry): string {
+  const details = [t.year, t.mediaType === 'tv' ? 'TV' : null].filter(Boolean).join(', ')
+  return details ? `${t.title} (${details})` : t.title
+}
+
+// ── Output language ────────────────────────────────────────────────────────
+// Prompts name the language in English ("German (Germany)") — models follow
+// that more reliably than a bare locale code.
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' })
+
+function languageName(locale: string): string {
+  return languageNames.of(locale) ?? locale
+}
+
+// ── Write-up splitter ──────────────────────────────────────────────────────
+// The writer separates its per-title write-ups with a line containing only
+// `---`. This turns the raw text stream into per-pick deltas. A separator is
+// only recognised at the start of a line, and extra separators beyond the last
+// pick are folded into that pick so a chatty model can't invent a card.
+function createDeltaSplitter(count: number, emit: (index: number, text: string) => void) {
+  let index = 0
+  let pending = ''
+  let lineStart = true
+
+  function push(chunk: string) {
+    pending += chunk
+    let nl: number
+    while ((nl = pending.indexOf('\n')) !== -1) {
+      const line = pending.slice(0, nl)
+      pending = pending.slice(nl + 1)
+      if (lineStart && line.trim() === '---') {
+        if (index < count - 1) index++
+      } else {
+        emit(index, line + '\n')
+      }
+      lineStart = true
+    }
+    // Hold back a partial line only while it could still turn into a separator
+    if (pending && !(lineStart && /^\s*-{0,3}\s*$/.test(pending))) {
+      emit(index, pending)
+      pending = ''
+      lineStart = false
+    }
+  }
+
+  function flush() {
+    if (pending && !(lineStart && pending.trim() === '---')) emit(index, pending)
+    pending = ''
+  }
+
+  return { push, flush }
+}
+
+// ── Pool helpers ───────────────────────────────────────────────────────────
+function itemKey(item: PoolItem): string {
+  return feedbackKey({ id: item.id, mediaType: item.mediaType, title: '' })
+}
+
+function itemYear(item: PoolItem): string {
+  return (item.release_date ?? item.first_air_date ?? '').slice(0, 4)
+}
+
+// One numbered line of the selection prompt
+function poolLine(r: PoolItem, i: number, mixed: boolean): string {
+  const rating = r.vote_average?.toFixed(1) ?? '?'
+  const overview = r.overview?.slice(0, 150) ?? ''
+  const kind = mixed ? ` [${r.mediaType === 'movie' ? 'film' : 'series'}]` : ''
+  return `${i}. ${r.title ?? r.name ?? 'Unknown'} (${itemYear(r)}) [${rating}★]${kind} — ${overview}`
+}
+
+function toPick(r: PoolItem, vibe: string, streaming: StreamingOptions): RecPick {
+  return {
+    id: r.id,
+    mediaType: r.mediaType,
+    title: r.title ?? r.name ?? 'Unknown',
+    year: itemYear(r),
+    posterPath: r.poster_path ?? null,
+    vibe,
+    providers: streaming.providers,
+    watchLink: streaming.link,
+  }
+}
+
+// Where a title streams among the chosen services (any, if none are chosen),
+// or null if nowhere. A failed lookup can't tell either way and counts as
+// streamable without listing providers.
+async function streamingOn(
+  item: PoolItem,
+  country: string,
+  providerIds: number[],
+  signal?: AbortSignal,
+): Promise<StreamingOptions | null> {
+  try {
+    const options = await getStreamingOptions(item.mediaType, item.id, country, signal)
+    const providers = providerIds.length > 0
+      ? options.providers.filter(p => providerIds.includes(p.provider_id))
+      : options.providers
+    return providers.length > 0 ? { ...options, providers } : null
+  } catch (err) {
+    if (signal?.aborted) throw err
+    console.error(`[recommend] availability check failed for ${itemKey(item)}`, err)
+    return { providers: [], link: null }
+  }
+}
+
+function writerSystem(locale: string): string {
+  return `Write warm, personal film/TV recommendations.
+For each title you are given, in the same order, write 1–2 warm, specific sentences on why they'll love it.
+Separate the write-ups with a line containing only ---
+No headings, numbering, titles or markdown — just the sentences.
+Write about ONLY the titles given to you — do not add, substitute, or mention any other title.
+Write in ${languageName(locale)}.`
+}
+
+// Stand-in write-up when the writer fails: the overview's opening sentences,
+// already in the user's language
+function templateWriteUp(r: PoolItem): string {
+  const overview = r.overview?.trim() ?? ''
+  const sentences = overview.match(/[^.!?]+[.!?]+(\s|$)/g)
+  return (sentences ? sentences.slice(0, 2).join('') : overview).trim()
+}
+
+// Stand-in vibe for picks the model didn't label: their first two genres
+function genreVibe(genres: string[]): string {
+  return genres.slice(0, 2).join(' & ')
+}
+
+// "Title (year) · vibe — overview", the writer's view of one pick
+function writerLine(pick: RecPick, r: PoolItem): string {
+  const label = [`${pick.title} (${pick.year})`, pick.vibe].filter(Boolean).join(' · ')
+  return `${label} — ${r.overview?.slice(0, 200) ?? ''}`
+}
+
+// ── App ─────────────────────────────────────────────────────────────────────
+export const app = new Hono()
+
+app.use(
+  '/api/*',
+  cors({
+    origin: '*',
+    allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowHeaders: ['Content-Type'],
+    exposeHeaders: ['Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy'],
+  }),
+)
+
+app.use('/api/*', rateLimit(createStore()))
+
+// ── Health ─────────────────────────────────────────────────────────────────
+app.get('/api/health', (c) => c.json({ status: 'ok' }))
+
+// ── Providers ──────────────────────────────────────────────────────────────
+app.get('/api/providers', async (c) => {
+  if (!process.env.TMDB_API_KEY) return c.json<ApiError>({ error: 'TMDB not configured' }, 500)
+  const parsedRegion = CountrySchema.safeParse(c.req.query('region') ?? 'US')
+  if (!parsedRegion.success) return badRequest(c, parsedRegion.error, 'Invalid region')
+  const region = parsedRegion.data
+
+  // Either list alone is still a usable picker; only fail when both do
+  const lists = await Promise.allSettled([
+    tmdbFetch<{ results?: Provider[] }>('/watch/providers/movie', { watch_region: region }),
+    tmdbFetch<{ results?: Provider[] }>('/watch/providers/tv', { watch_region: region }),
+  ])
+  const loaded = lists.flatMap(r => r.status === 'fulfilled' ? [r.value] : [])
+  if (loaded.length === 0) {
+    console.error('[providers]', lists.map(r => r.status === 'rejected' && r.reason))
+    return c.json<ApiError>({ error: 'Could not load providers' }, 502)
+  }
+
+  const map = new Map<number, Provider>()
+  for (const p of loaded.flatMap(l => l.results ?? [])) {
+    if (!map.has(p.provider_id)) {
+      map.set(p.provider_id, {
+        provider_id: p.provider_id,
+        provider_name: p.provider_name,
+        logo_path: p.logo_path,
+        display_priority: p.display_priority,
+      })
+    }
+  }
+
+  const sorted = [...map.values()]
+    .sort((a, b) => a.display_priority - b.display_priority)
+    .slice(0, 30)
+
+  return c.json(sorted)
+})
+
+// ── Regions & genres ───────────────────────────────────────────────────────
+// Both lists change rarely; tmdbFetch caches them for a day and browsers may too.
+const CATALOG_CACHE_CONTROL = 'public, max-age=3600'
+
+app.get('/api/regions', async (c) => {
+  if (!process.env.TMDB_API_KEY) return c.json<ApiError>({ error: 'TMDB not configured' }, 500)
+  const parsed = RegionsQuerySchema.safeParse(c.req.query())
+  if (!parsed.success) return badRequest(c, parsed.error)
+
+  try {
+    const regions = await getRegions(parsed.data.locale)
+    c.header('Cache-Control', CATALOG_CACHE_CONTROL)
+    return c.json(regions)
+  } catch (err) {
+    console.error('[regions]', err)
+    return c.json<ApiError>({ error: 'Could not load regions' }, 502)
+  }
+})
+
+app.get('/api/genres', async (c) => {
+  if (!process.env.TMDB_API_KEY) return c.json<ApiError>({ error: 'TMDB not configured' }, 500)
+  const parsed = GenresQuerySchema.safeParse(c.req.query())
+  if (!parsed.success) return badRequest(c, parsed.error)
+
+  try {
+    const genres = await getGenres(parsed.data.mediaType, parsed.data.locale)
+    c.header('Cache-Control', CATALOG_CACHE_CONTROL)
+    return c.json(genres)
+  } catch (err) {
+    console.error('[genres]', err)
+    return c.json<ApiError>({ error: 'Could not load genres' }, 502)
+  }
+})
+
+// ── Profiles ───────────────────────────────────────────────────────────────
+app.route('/api/profiles', profileRoutes)
+app.route('/api/profiles', watchlistRoutes)
+app.route('/api/rooms', roomRoutes)
+
+// ── Shared results ─────────────────────────────────────────────────────────
+app.route('/api/share', shareRoutes)
+app.route('/api/og', ogRoutes)
+
+// ── Title details ──────────────────────────────────────────────────────────
+app.get('/api/title/:mediaType/:id', async (c) => {
+  if (!process.env.TMDB_API_KEY) return c.json<ApiError>({ error: 'TMDB not configured' }, 500)
+  const parsed = TitleParamsSchema.safeParse({
+    ...c.req.param(),
+    country: c.req.query('country'),
+    locale: c.req.query('locale'),
+  })
+  if (!parsed.success) return badRequest(c, parsed.error)
+  const { mediaType, id, country, locale } = parsed.data
+
+  try {
+    return c.json(await getTitleDetails(mediaType, id, country, locale))
+  } catch (err) {
+    console.error('[title]', err)
+    if (err instanceof TmdbError && err.status === 404) {
+      return c.json<ApiError>({ error: 'Title not found' }, 404)
+    }
+    return c.json<ApiError>({ error: 'Could not load title details' }, 502)
+  }
+})
+
+// ── Recommend ──────────────────────────────────────────────────────────────
+// Streams NDJSON RecommendEvents — see shared/protocol.ts
+app.post('/api/recommend', async (c) => {
+  const llmError = llmConfigError()
+  if (llmError) return c.json<ApiError>({ error: llmError }, 500)
+  if (!process.env.TMDB_API_KEY) return c.json<ApiError>({ error: 'TMDB not configured' }, 500)
+
+  let raw: unknown
+  try { raw = await c.req.json() } catch { return c.json<ApiError>({ error: 'Invalid JSON' }, 400) }
+
+  const parsed = RecommendRequestSchema.safeParse(raw)
+  if (!parsed.success) return badRequest(c, parsed.error)
+
+  // A watch party's host sends the room ticket; the room's merged
+  // preferences stand in for everything else in the request
+  let request = parsed.data
+  const { room } = request
+  if (room) {
+    const search = startRoomSearch(room)
+    if (!search.ok) return c.json<ApiError>({ error: search.error }, search.status)
+    request = search.request
+  }
+  const {
+    country,
+    locale,
+    providerIds,
+    mediaType,
+    genres,
+    moods,
+    styles,
+    description,
+    filters,
+    moreLike,
+    profileId,
+  } = request
+
+  // Unknown profile ids just contribute nothing — a wiped store shouldn't break searches.
+  const { liked, disliked } = profileId
+    ? mergeFeedback(request, storedFeedback(profileId))
+    : request
+  // Watched watchlist titles are excluded like rated ones, without a verdict for the prompt
+  const watched = profileId ? watchedTitles(profileId) : []
+  // "More like this" anchors only seed a search of their own media type
+  const anchor = moreLike && (mediaType === 'either' || moreLike.mediaType === mediaType) ? moreLike : null
+
+  // "either" runs the movie and TV searches side by side and blends the pools
+  const mediaTypes: MediaType[] = mediaType === 'either' ? ['movie', 'tv'] : [mediaType]
+  const mixed = mediaTypes.length > 1
+  const wants = { movie: 'movie', tv: 'TV show', either: 'movie or TV show' }[mediaType]
+
+  const encoder = new TextEncoder()
+
+  // Aborted when the client goes away, which cancels every TMDB and model
+  // call still in flight for this search
+  const abort = new AbortController()
+  const { signal } = abort
+  c.req.raw.signal.addEventListener('abort', () => abort.abort(), { once: true })
+
+  const readable = new ReadableStream({
+    async start(controller) {
+      const send = (event: RecommendEvent) => {
+        if (!signal.aborted) controller.enqueue(encoder.encode(encodeEvent(event)))
+      }
+
+      try {
+        // ── Phase 1: signal search start ──────────────────────────────────
+        send({ type: 'start', version: PROTOCOL_VERSION })
+        send({ type: 'phase', phase: 'searching' })
+
+        // ── TMDB fetch ────────────────────────────────────────────────────
+        const tag = (type: MediaType) => (res: TmdbList): PoolItem[] =>
+          (res.results ?? []).flatMap(item => item.id != null ? [{ ...item, id: item.id, mediaType: type }] : [])
+
+        // Genre names become per-type ids; without the lists the search runs unfiltered
+        const genreIdsByType = new Map(await Promise.all(mediaTypes.map(async type => [
+          type,
+          await genreIds(type, genres, locale, signal).catch(err => {
+            console.error(`[recommend] ${type} genre list failed`, err)
+            return []
+          }),
+        ] as const)))
+
+        function discoverParams(type: MediaType): Record<string, string> {
+          const params: Record<string, string> = { ...filterParams(type, filters), language: locale }
+          const ids = genreIdsByType.get(type) ?? []
+          if (ids.length > 0) {
+            params.with_genres = ids.join(',')
+          }
+          // watch_region alone is a no-op on TMDB — it must be paired with either
+          // with_watch_providers or with_watch_monetization_types to actually filter results.
+          if (providerIds.length > 0) {
+            params.with_watch_providers = providerIds.join('|')
+            params.watch_region = country
+          } else {
+            // No specific providers selected — filter to anything streamable in the region.
+            params.watch_region = country
+            params.with_watch_monetization_types = 'flatrate|free|ads'
+          }
+          return params
+        }
+
+        // Likes seed the pool with TMDB's own "more like this" for each liked title
+        // of a searched media type; these run alongside everything below.
+        const seeds = liked
+          .flatMap(t => t.id != null && t.mediaType != null && mediaTypes.includes(t.mediaType)
+            ? [{ id: t.id, type: t.mediaType }]
+            : [])
+          .slice(0, LIKED_SEED_LIMIT)
+        const related = (type: MediaType, id: number) => [
+          tmdbFetch<TmdbList>(`/${type}/${id}/recommendations`, { page: '1', language: locale }, signal).then(tag(type)),
+          tmdbFetch<TmdbList>(`/${type}/${id}/similar`, { page: '1', language: locale }, signal).then(tag(type)),
+        ]
+        const seedSearches = Promise.allSettled(seeds.flatMap(({ id, type }) => related(type, id)))
+        // Overviews of the anchor and liked titles feed the local ranking, the anchor's at full weight
+        const overviewSearches = Promise.allSettled([
+          ...anchor ? [{ id: anchor.id, type: anchor.mediaType, weight: 1 }] : [],
+          ...seeds.map(seed => ({ ...seed, weight: 0.5 })),
+        ].map(async ({ id, type, weight }): Promise<RankQuery> => {
+          const details = await tmdbFetch<TmdbItem>(`/${type}/${id}`, { language: locale }, signal)
+          return { text: details.overview ?? '', weight }
+        }))
+        // Genre names give list entries (which only carry ids) words to match on
+        const genreNameLists = Promise.all(mediaTypes.map(async type => [
+          type,
+          await genreNames(type, locale, signal).catch(() => new Map<number, string>()),
+        ] as const))
+        // A "more like this" anchor's own suggestions lead the whole pool
+        const anchorSearches = Promise.allSettled(anchor ? related(anchor.mediaType, anchor.id) : [])
+
+        // Mood and style chips run their own keyword/genre discover queries
+        const tagSearches = Promise.all(mediaTypes.map(async type => {
+          const queries = await tagQueries(type, [...moods, ...styles], signal)
+          const results = await Promise.allSettled(queries.map(q => {
+            const params = discoverParams(type)
+            if (q.keywordIds.length > 0) params.with_keywords = q.keywordIds.join('|')
+            if (q.genreIds.length > 0) params.with_genres = [params.with_genres, ...q.genreIds].filter(Boolean).join(',')
+            return tmdbFetch<TmdbList>(`/discover/${type}`, { ...params, sort_by: 'popularity.desc', page: '1' }, signal).then(tag(type))
+          }))
+          return results.flatMap(res => res.status === 'fulfilled' ? res.value : [])
+        }))
+
+        // Discover is read as feeds — popular, top-rated and recent — each paged on
+        // demand. Top-rated pages need enough votes for the average to mean something.
+        const topRatedMinVotes = String(Math.max(150, filters.minVotes ?? 0))
+        const today = new Date().toISOString().slice(0, 10)
+        const feeds: DiscoverFeed[] = mediaTypes.flatMap(type => {
+          const date = type === 'movie' ? 'primary_release_date' : 'first_air_date'
+          const params = discoverParams(type)
+          return [
+            { type, params: { ...params, sort_by: 'popularity.desc' }, initialPages: 3 },
+            { type, params: { ...params, sort_by: 'vote_average.desc', 'vote_count.gte': topRatedMinVotes }, initialPages: 2 },
+            // Recent releases, not announcements: capped at today unless the filters end earlier
+            { type, params: { [`${date}.lte`]: today, ...params, sort_by: `${date}.desc` }, initialPages: 1 },
+          ].map(feed => ({ ...feed, nextPage: 1, live: true }))
+        })
+
+        // Reads the feed's next pages. A feed ends at its last page, an empty
+        // page or a failed one.
+        async function readFeed(feed: DiscoverFeed, pages: number): Promise<PoolItem[]> {
+          const numbers = Array.from({ length: pages }, (_, i) => feed.nextPage + i)
+          feed.nextPage += pages
+          const results = await Promise.allSettled(numbers.map(page =>
+            tmdbFetch<TmdbList>(`/discover/${feed.type}`, { ...feed.params, page: String(page) }, signal),
+          ))
+          return results.flatMap(res => {
+            if (res.status === 'rejected') {
+              feed.live = false
+              return []
+            }
+            const items = tag(feed.type)(res.value)
+            const totalPages = res.value.total_pages ?? Infinity
+            if (items.length === 0 || feed.nextPage > totalPages) feed.live = false
+            return items
+          })
+        }
+
+        // Phase 1: first discover pages (region-filtered) + description filter generation — all in parallel
+        const [filterResult, firstPages] = await Promise.all([
+          // If description provided, use a fast model to extract targeted search terms
+          description.trim()
+            ? llm('filters').extractFilters(`A user wants a ${wants} matching this description: "${description}"
+
+Generate short TMDB search queries and similar well-known ${wants} titles.
+Search queries should be 2-4 words capturing themes, tone, or style.
+Similar titles should be real, recognisable ${mediaType === 'movie' ? 'films' : mediaType === 'tv' ? 'shows' : 'films or shows'}.`, signal)
+              .catch(err => {
+                console.error('[recommend] description filters failed', err)
+                return null
+              })
+            : null,
+          // General discover fetches — all use discoverParams which always includes watch_region
+          Promise.all(feeds.map(feed => readFeed(feed, feed.initialPages))),
+        ])
+        const discovered = firstPages.flat()
+
+        // Phase 2: if filters were generated, run targeted TMDB searches
+        const descriptionPool: PoolItem[] = []
+        if (filterResult) {
+          const { searchQueries, similarTitles } = filterResult
+          console.log(`[recommend] description filters: queries=${JSON.stringify(searchQueries)} similar=${JSON.stringify(similarTitles)}`)
+          const descSearches = await Promise.allSettled(
+            [...searchQueries, ...similarTitles].flatMap(query => mediaTypes.map(type =>
+              tmdbFetch<TmdbList>(`/search/${type}`, { query, include_adult: 'false', language: locale }, signal).then(tag(type)),
+            )),
+          )
+          for (const res of descSearches) {
+            if (res.status === 'fulfilled') descriptionPool.push(...res.value)
+          }
+        }
+
+        // Titles suggested by several likes rank first; ties keep TMDB's order
+        const seedCounts = new Map<string, { item: PoolItem; count: number }>()
+        for (const res of await seedSearches) {
+          if (res.status !== 'fulfilled') continue
+          for (const item of res.value) {
+            const key = itemKey(item)
+            const entry = seedCounts.get(key)
+            if (entry) entry.count++
+            else seedCounts.set(key, { item, count: 1 })
+          }
+        }
+        const rankedSeeds = [...seedCounts.values()]
+          .sort((a, b) => b.count - a.count)
+          .map(e => e.item)
+
+        // The anchor's suggestions skip the region check: every pick is verified
+        // against the user's services before it's shown anyway
+        const anchorPool = (await anchorSearches).flatMap(res => res.status === 'fulfilled' ? res.value : [])
+        const tagPool = (await tagSearches).flat()
+
+        // Filter out titles the user has already seen (liked, disliked or watched) — by id,
+        // or by title for feedback from clients that only send titles. The anchor too.
+        const seenKeys = new Set([...liked, ...disliked, ...watched, ...anchor ? [anchor] : []].map(feedbackKey))
+        const isFresh = (r: PoolItem) =>
+          !seenKeys.has(itemKey(r)) &&
+          !seenKeys.has(feedbackKey({ id: null, mediaType: null, title: r.title ?? r.name ?? '' }))
+
+        // Merges everything fetched so far, deduplicated and minus seen titles.
+        // Priority results (the anchor's suggestions, then region-valid description
+        // results, mood/style matches and liked-title seeds) are kept apart from the
+        // general discover tail.
+        function assemblePool() {
+          // /search/ and seed lists have no region filter, so they only count when
+          // discover found the title too — unless every discover call failed
+          const discoverKeys = new Set(discovered.map(itemKey))
+          const regional = (item: PoolItem) => discoverKeys.size === 0 || discoverKeys.has(itemKey(item))
+          const seen = new Set<string>()
+          const unique = (items: PoolItem[]) => items.filter(item => {
+            if (seen.has(itemKey(item))) return false
+            seen.add(itemKey(item))
+            return true
+          })
+          const priority = unique([
+            ...anchorPool,
+            ...descriptionPool.filter(regional),
+            // Discover results, so already region-filtered
+            ...tagPool,
+            ...rankedSeeds.filter(regional),
+          ])
+          const general = unique(discovered)
+          return { priority: priority.filter(isFresh), general: general.filter(isFresh) }
+        }
+
+        // Keep paging while too few unseen titles are left — after a few refinement
+        // rounds, or with narrow filters, the first pages run dry
+        let assembled = assemblePool()
+        let pagesLeft = DISCOVER_PAGE_BUDGET * mediaTypes.length - feeds.reduce((n, feed) => n + feed.initialPages, 0)
+        while (assembled.priority.length + assembled.general.length < POOL_SIZE) {
+          const live = feeds.filter(feed => feed.live).slice(0, pagesLeft)
+          if (live.length === 0) break
+          pagesLeft -= live.length
+          for (const items of await Promise.all(live.map(feed => readFeed(feed, 1)))) discovered.push(...items)
+          assembled = assemblePool()
+        }
+
+        // Rank everything past the priority slots, so the most relevant titles
+        // reach the prompt wherever TMDB listed them. Ties keep pool order, which
+        // favours priority overflow.
+        const rankQuery: RankQuery[] = [
+          { text: [description, ...moods, ...styles, ...tagKeywordNames([...moods, ...styles])].join(' '), weight: 1 },
+          ...(await overviewSearches).flatMap(res => res.status === 'fulfilled' ? [res.value] : []),
+        ]
+        const genreNamesByType = new Map(await genreNameLists)
+        const genresOf = (item: PoolItem) =>
+          (item.genre_ids ?? []).flatMap(id => genreNamesByType.get(item.mediaType)?.get(id) ?? [])
+        const ranked = rankPool(
+          [...assembled.priority.slice(PRIORITY_SLOTS), ...assembled.general],
+          rankQuery,
+          item => genresOf(item).join(' '),
+        )
+        const freshPool = [...assembled.priority.slice(0, PRIORITY_SLOTS), ...ranked.map(r => r.item)]
+        if (freshPool.length === 0) {
+          throw new Error('Nothing new matches these choices — try widening them')
+        }
+
+        const poolSlice = freshPool.slice(0, POOL_SIZE)
+
+        // ── Phase 2: signal found count ───────────────────────────────────
+        send({ type: 'phase', phase: 'found', count: freshPool.length })
+
+        console.log(`[recommend] pool: ${poolSlice.map(r => r.title ?? r.name).join(', ')}`)
+
+        // ── Phase 3: AI picks + stream ────────────────────────────────────
+        const prefsParts = [
+          anchor ? `More like: ${feedbackLabel(anchor)} — favour titles that share its tone and appeal` : null,
+          genres.length > 0 ? `Genres: ${genres.join(', ')}` : null,
+          moods.length > 0 ? `Mood: ${moods.join(', ')}` : null,
+          styles.length > 0 ? `Style: ${styles.join(', ')}` : null,
+          description ? `Notes: "${description}"` : null,
+          providerIds.length > 0 ? `(On selected services in ${country})` : null,
+        ].filter(Boolean).join('\n')
+
+        const feedbackParts = [
+          liked.length > 0
+            ? `Titles they ENJOYED — find more like these: ${liked.map(feedbackLabel).join(', ')}`
+            : null,
+          disliked.length > 0
+            ? `Titles they did NOT enjoy — avoid this tone/style: ${disliked.map(feedbackLabel).join(', ')}`
+            : null,
+        ].filter(Boolean).join('\n')
+
+        send({ type: 'phase', phase: 'selecting' })
+
+        // Step 1: structured index selection — model picks by number so it cannot
+        // hallucinate a title that isn't in the pool.
+        const numberedList = poolSlice.map((r, i) => poolLine(r, i, mixed)).join('\n')
+        const brief = `${prefsParts}${feedbackParts ? `\n\nFeedback on previous picks:\n${feedbackParts}` : ''}`
+
+        // Without the model, the local ranking picks — over the whole prompt
+        // list this time, priority results included — with genre names as vibes
+        const selection = await llm('selection').selectPicks(`User wants: a ${wants}${mixed ? ' — mixing films and series is fine' : ''}
+${brief}
+
+Pick ${poolSlice.length > 3 ? '3–5' : poolSlice.length} ${poolSlice.length === 1 ? 'title' : 'titles'} by index that best match the preferences. Vary your choices.
+Write the vibe labels in ${languageName(locale)}.
+${numberedList}`, poolSlice.length, signal).catch(err => {
+          if (signal.aborted) throw err
+          console.error('[recommend] selection failed, using the local ranking', err)
+          send({ type: 'fallback', stage: 'selection' })
+          const byScore = rankPool(poolSlice, rankQuery, item => genresOf(item).join(' '))
+          return {
+            picks: byScore.slice(0, FALLBACK_PICKS).map(({ item }) => ({
+              index: poolSlice.indexOf(item),
+              vibe: genreVibe(genresOf(item)),
+            })),
+          }
+        })
+
+        // Step 2: the schema bounds indices to the pool; duplicates are dropped
+        // here so the same title can't fill two cards.
+        const pickedIndices = new Set<number>()
+        const picked = selection.picks.filter(p => {
+          if (p.index < 0 || p.index >= poolSlice.length || pickedIndices.has(p.index)) return false
+          pickedIndices.add(p.index)
+          return true
+        })
+        // Step 3: confirm each pick streams on the chosen services in the country.
+        // Search results were never region-checked, so unavailable picks are dropped
+        // and the shortfall topped up from the rest of the pool, in pool order.
+        const checked = await Promise.all(picked.map(p => streamingOn(poolSlice[p.index], country, providerIds, signal)))
+        const verified = picked.flatMap((p, i) => {
+          const streaming = checked[i]
+          return streaming ? [{ ...p, streaming }] : []
+        })
+        const failedSpares: number[] = []
+        if (verified.length < MIN_PICKS) {
+          const spares = poolSlice
+            .flatMap((_, index) => pickedIndices.has(index) ? [] : [index])
+            .slice(0, REPLACEMENT_CHECKS)
+          const spareChecks = await Promise.all(spares.map(index => streamingOn(poolSlice[index], country, providerIds, signal)))
+          spares.forEach((index, i) => {
+            const streaming = spareChecks[i]
+            // Replacements need a positive answer; an unknown can't vouch for them
+            if (!streaming || streaming.providers.length === 0) failedSpares.push(index)
+            else if (verified.length < MIN_PICKS) verified.push({ index, vibe: genreVibe(genresOf(poolSlice[index])), streaming })
+          })
+        }
+        if (verified.length === 0) {
+          throw new Error('None of these titles are streaming on your services right now — try widening your choices')
+        }
+
+        const picks: RecPick[] = verified.map(p => toPick(poolSlice[p.index], p.vibe, p.streaming))
+        send({ type: 'picks', picks })
+
+        // Keep the pool for single-card swaps. The model's picks and the spares
+        // that failed the streaming check are never offered again; spares that
+        // passed but weren't needed stay available.
+        const sessionId = saveSession({
+          country, locale, providerIds, mixed, wants, brief,
+          pool: freshPool,
+          shown: new Set([...pickedIndices, ...verified.map(p => p.index), ...failedSpares].map(i => itemKey(poolSlice[i]))),
+        })
+
+        // Step 4: stream warm descriptions for exactly the verified picks
+        send({ type: 'phase', phase: 'writing' })
+        const pickedText = verified
+          .map((p, i) => `${i + 1}. ${writerLine(picks[i], poolSlice[p.index])}`)
+          .join('\n')
+
+        const writeUps = llm('writer').streamWriteUps({
+          system: writerSystem(locale),
+          prompt: `Write enthusiastic recommendations for exactly these titles:\n${pickedText}`,
+          titles: picks.map(p => p.title),
+          signal,
+        })
+
+        const descriptions = picks.map(() => '')
+        const splitter = createDeltaSplitter(picks.length, (index, text) => {
+          descriptions[index] += text
+          send({ type: 'delta', index, text })
+        })
+        try {
+          for await (const chunk of writeUps) splitter.push(chunk)
+        } catch (err) {
+          if (signal.aborted) throw err
+          // Cards the model never got to are described from their overviews
+          console.error('[recommend] write-ups failed, using overviews', err)
+          send({ type: 'fallback', stage: 'writing' })
+        }
+        splitter.flush()
+        verified.forEach((p, index) => {
+          if (descriptions[index].trim()) return
+          const text = templateWriteUp(poolSlice[p.index])
+          descriptions[index] = text
+          if (text) send({ type: 'delta', index, text })
+        })
+
+        // A failed save only costs the permalink, not the result
+        const result = { picks, descriptions: descriptions.map(d => d.trim()) }
+        let shareId: string | undefined
+        try {
+          shareId = saveShare(
+            { country, providerIds, mediaType, genres, moods, styles, description },
+            result,
+          )
+        } catch (err) {
+          console.error('[recommend] share save failed', err)
+        }
+        // The rest of the room picks the result up on its next poll
+        if (room) finishRoomSearch(room.code, result)
+
+        send({ type: 'done', shareId, sessionId })
+      } catch (err) {
+        if (room) finishRoomSearch(room.code, null)
+        if (signal.aborted) {
+          console.log('[recommend] client went away, search stopped')
+          return
+        }
+        console.error('[recommend]', err)
+        send({ type: 'error', message: err instanceof Error ? err.message : 'Recommendation failed' })
+      }
+      if (!signal.aborted) controller.close()
+    },
+    cancel() {
+      abort.abort()
+    },
+  })
+
+  return new Response(readable, {
+    headers: { 'Content-Type': RECOMMEND_CONTENT_TYPE },
+  })
+})
+
+// ── Single pick ────────────────────────────────────────────────────────────
+// Swaps one card: a fresh pick from a finished search's pool, excluding
+// everything already shown, with its write-up in one JSON response.
+app.post('/api/recommend/pick', async (c) => {
+  const llmError = llmConfigError()
+  if (llmError) return c.json<ApiError>({ error: llmError }, 500)
+  if (!process.env.TMDB_API_KEY) return c.json<ApiError>({ error: 'TMDB not configured' }, 500)
+
+  let raw: unknown
+  try { raw = await c.req.json() } catch { return c.json<ApiError>({ error: 'Invalid JSON' }, 400) }
+
+  const parsed = PickRequestSchema.safeParse(raw)
+  if (!parsed.success) return badRequest(c, parsed.error)
+
+  const session = getSession(parsed.data.sessionId)
+  if (!session) return c.json<ApiError>({ error: 'This search has expired — run it again' }, 404)
+
+  const { country, locale, providerIds, mixed, wants, brief, shown } = session
+  const excluded = new Set(parsed.data.exclude.map(t => feedbackKey({ ...t, title: '' })))
+  const candidates = session.pool
+    .filter(r => !shown.has(itemKey(r)) && !excluded.has(itemKey(r)))
+    .slice(0, POOL_SIZE)
+  if (candidates.length === 0) return c.json<ApiError>({ error: 'No more titles in this search' }, 409)
+
+  const { signal } = c.req.raw
+  try {
+    // Without the model, the candidates are tried in pool (ranked) order
+    const selection = await llm('selection').selectPicks(`User wants: a ${wants}${mixed ? ' — mixing films and series is fine' : ''}
+${brief}
+
+Pick up to 3 titles by index that best match the preferences, best match first.
+Write the vibe labels in ${languageName(locale)}.
+${candidates.map((r, i) => poolLine(r, i, mixed)).join('\n')}`, candidates.length, signal).catch(err => {
+      if (signal.aborted) throw err
+      console.error('[recommend] single pick selection failed, using pool order', err)
+      return { picks: [] }
+    })
+
+    // The model's choices in order, then the rest of the candidates as a fallback.
+    // As in a full search, only the model's own choices may stand on an unknown.
+    const chosen = [...new Set(selection.picks.map(p => p.index))]
+      .filter(index => index >= 0 && index < candidates.length)
+    const order = [
+      ...chosen.map(index => ({ index, vibe: selection.picks.find(p => p.index === index)?.vibe ?? '' })),
+      ...candidates.flatMap((_, index) => chosen.includes(index) ? [] : [{ index, vibe: '' }]),
+    ].slice(0, REPLACEMENT_CHECKS)
+
+    let found: { index: number; vibe: string; streaming: StreamingOptions } | null = null
+    for (const [i, option] of order.entries()) {
+      const streaming = await streamingOn(candidates[option.index], country, providerIds, signal)
+      shown.add(itemKey(candidates[option.index]))
+      if (streaming && (i < chosen.length || streaming.providers.length > 0)) {
+        found = { ...option, streaming }
+        break
+      }
+    }
+    if (!found) return c.json<ApiError>({ error: 'No more titles in this search' }, 409)
+
+    // A candidate the model didn't choose is labelled by its genres, as in a full search
+    const item = candidates[found.index]
+    if (!found.vibe) {
+      const names = await genreNames(item.mediaType, locale, signal).catch(() => new Map<number, string>())
+      found.vibe = genreVibe((item.genre_ids ?? []).flatMap(id => names.get(id) ?? []))
+    }
+
+    const pick = toPick(item, found.vibe, found.streaming)
+    let description = ''
+    try {
+      for await (const chunk of llm('writer').streamWriteUps({
+        system: writerSystem(locale),
+        prompt: `Write an enthusiastic recommendation for exactly this title:\n1. ${writerLine(pick, item)}`,
+        titles: [pick.title],
+        signal,
+      })) description += chunk
+    } catch (err) {
+      if (signal.aborted) throw err
+      console.error('[recommend] single pick write-up failed, using the overview', err)
+      description = ''
+    }
+
+    return c.json<PickResponse>({ pick, description: description.trim() || templateWriteUp(item) })
+  } catch (err) {
+    // An aborted request has nobody left to read the answer; only log real failures
+    if (!signal.aborted) console.error('[recommend] single pick failed', err)
+    return c.json<ApiError>({ error: 'Could not pick a replacement' }, 502)
+  }
+})
+
+// ── Static client files (production only) ──────────────────────────────────
+if (process.env.NODE_ENV === 'production') {
+  // Share pages get their own og:image / twitter:image so links unfurl with the picks
+  const indexHtml = readFileSync('../client/dist/index.html', 'utf8')
+  app.get('/s/:id', (c, next) => {
+    const share = getShare(c.req.param('id'))
+    if (!share) return next()
+    const origin = process.env.PUBLIC_URL ?? new URL(c.req.url).origin
+    return c.html(sharePageHtml(indexHtml, share, origin.replace(/\/$/, '')))
+  })
+  app.use('/*', serveStatic({ root: '../client/dist' }))
+  app.get('/*', serveStatic({ path: 'index.html', root: '../client/dist' }))
+}
+
@@ -0,0 +1,50 @@
+import { DEFAULT_LOCALE, type MediaChoice, type MediaType, type Region } from '../../shared/contract.js'
+import { tmdbFetch } from './tmdb.js'
+
+// ── Raw TMDB shapes ────────────────────────────────────────────────────────
+interface TmdbRegion { iso_3166_1: string; english_name: string; native_name?: string }
+interface TmdbGenre { id: number; name: string }
+
+// ── Regions ────────────────────────────────────────────────────────────────
+// Every region TMDB has watch-provider data for. `native_name` is localized
+// to the requested language despite its name.
+export async function getRegions(locale: string): Promise<Region[]> {
+  const res = await tmdbFetch<{ results?: TmdbRegion[] }>('/watch/providers/regions', { language: locale })
+  return (res.results ?? [])
+    .map(r => ({ code: r.iso_3166_1, name: r.native_name || r.english_name }))
+    .sort((a, b) => a.name.localeCompare(b.name, locale))
+}
+
+// ── Genres ─────────────────────────────────────────────────────────────────
+async function genreList(type: MediaType, locale: string, signal?: AbortSignal): Promise<TmdbGenre[]> {
+  const res = await tmdbFetch<{ genres?: TmdbGenre[] }>(`/genre/${type}/list`, { language: locale }, signal)
+  return res.genres ?? []
+}
+
+// Names for the chips. "either" lists every genre of both types once, movie
+// genres first; a name only one type has still narrows that type's search.
+export async function getGenres(mediaType: MediaChoice, locale: string): Promise<string[]> {
+  const types: MediaType[] = mediaType === 'either' ? ['movie', 'tv'] : [mediaType]
+  const lists = await Promise.all(types.map(type => genreList(type, locale)))
+  return [...new Set(lists.flat().map(g => g.name))]
+}
+
+// id → name for one media type, e.g. to give list entries their genre words
+export async function genreNames(type: MediaType, locale: string, signal?: AbortSignal): Promise<Map<number, string>> {
+  return new Map((await genreList(type, locale, signal)).map(g => [g.id, g.name]))
+}
+
+// Resolves chip names to this media type's genre ids. Names are matched in the
+// request locale and in English, so requests from older clients keep working.
+// Names the type doesn't have are skipped.
+export async function genreIds(type: MediaType, names: string[], locale: string, signal?: AbortSignal): Promise<number[]> {
+  if (names.length === 0) return []
+  const locales = [...new Set([locale, DEFAULT_LOCALE])]
+  const lists = await Promise.all(locales.map(l => genreList(type, l, signal)))
+  const byName = new Map<string, number>()
+  for (const g of lists.flat()) {
+    const key = g.name.toLowerCase()
+    if (!byName.has(key)) byName.set(key, g.id)
+  }
+  return [...new Set(names.flatMap(n => byName.get(n.toLowerCase()) ?? []))]
+}
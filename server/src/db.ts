@@ -0,0 +1,99 @@
+import Database from 'better-sqlite3'
+import { mkdirSync } from 'fs'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+
+// ── SQLite store ───────────────────────────────────────────────────────────
+// DATABASE_FILE overrides the location; ":memory:" gives a throwaway store.
+const DEFAULT_FILE = join(dirname(fileURLToPath(import.meta.url)), '../data/somethingtowatch.db')
+
+// Append-only: each entry runs once, tracked via PRAGMA user_version.
+const MIGRATIONS: string[] = [
+  `CREATE TABLE profiles (
+     id           TEXT PRIMARY KEY,
+     country      TEXT NOT NULL,
+     provider_ids TEXT NOT NULL DEFAULT '[]',
+     created_at   INTEGER NOT NULL,
+     updated_at   INTEGER NOT NULL
+   );
+   CREATE TABLE feedback (
+     id         INTEGER PRIMARY KEY AUTOINCREMENT,
+     profile_id TEXT NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+     title      TEXT NOT NULL,
+     tmdb_id    INTEGER,
+     media_type TEXT,
+     verdict    TEXT NOT NULL CHECK (verdict IN ('like', 'dislike', 'clear')),
+     created_at INTEGER NOT NULL
+   );
+   CREATE INDEX feedback_profile ON feedback(profile_id, id);`,
+  `CREATE TABLE rate_buckets (
+     key        TEXT PRIMARY KEY,
+     tokens     REAL NOT NULL,
+     updated_at INTEGER NOT NULL
+   );`,
+  `CREATE TABLE shares (
+     id          TEXT PRIMARY KEY,
+     preferences TEXT NOT NULL,
+     result      TEXT NOT NULL,
+     created_at  INTEGER NOT NULL
+   );`,
+  `ALTER TABLE feedback ADD COLUMN year TEXT;`,
+  `ALTER TABLE profiles ADD COLUMN locale TEXT NOT NULL DEFAULT 'en-US';`,
+  `CREATE TABLE watchlist (
+     profile_id  TEXT NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+     media_type  TEXT NOT NULL,
+     tmdb_id     INTEGER NOT NULL,
+     title       TEXT NOT NULL,
+     year        TEXT NOT NULL DEFAULT '',
+     poster_path TEXT,
+     added_at    INTEGER NOT NULL,
+     watched_at  INTEGER,
+     checked_for TEXT,
+     checked_at  INTEGER,
+     providers   TEXT NOT NULL DEFAULT '[]',
+     arriving    TEXT NOT NULL DEFAULT '[]',
+     leaving     TEXT NOT NULL DEFAULT '[]',
+     changed_at  INTEGER,
+     PRIMARY KEY (profile_id, media_type, tmdb_id)
+   );`,
+  `CREATE TABLE rooms (
+     code       TEXT PRIMARY KEY,
+     host_id    TEXT NOT NULL,
+     country    TEXT NOT NULL,
+     locale     TEXT NOT NULL,
+     media_type TEXT NOT NULL,
+     status     TEXT NOT NULL DEFAULT 'open',
+     result     TEXT,
+     created_at INTEGER NOT NULL,
+     updated_at INTEGER NOT NULL
+   );
+   CREATE TABLE room_participants (
+     id          TEXT PRIMARY KEY,
+     room_code   TEXT NOT NULL REFERENCES rooms(code) ON DELETE CASCADE,
+     name        TEXT NOT NULL,
+     preferences TEXT,
+     vote        INTEGER,
+     joined_at   INTEGER NOT NULL
+   );
+   CREATE INDEX room_participants_room ON room_participants(room_code, joined_at);`,
+]
+
+function openDatabase(): Database.Database {
+  const file = process.env.DATABASE_FILE ?? DEFAULT_FILE
+  if (file !== ':memory:') mkdirSync(dirname(file), { recursive: true })
+
+  const db = new Database(file)
+  db.pragma('journal_mode = WAL')
+  db.pragma('foreign_keys = ON')
+
+  const version = db.pragma('user_version', { simple: true }) as number
+  for (let v = version; v < MIGRATIONS.length; v++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[v])
+      db.pragma(`user_version = ${v + 1}`)
+    })()
+  }
+  return db
+}
+
+export const db = openDatabase()
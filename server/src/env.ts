@@ -0,0 +1,8 @@
+import { config } from 'dotenv'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+
+// Imported first by index.ts: ES imports are evaluated before the importing
+// module's body, so modules that read process.env at load time need .env
+// applied by an import that precedes them.
+config({ path: join(dirname(fileURLToPath(import.meta.url)), '../../.env') })
@@ -0,0 +1,15 @@
+import type { Context } from 'hono'
+import { fieldErrors, type ApiError } from '../../shared/contract.js'
+
+// Schemas come from shared/, which carries its own zod copy — take the error
+// type from there rather than from the server's zod.
+type ZodError = Parameters<typeof fieldErrors>[0]
+
+// ── Response helpers ───────────────────────────────────────────────────────
+export function badRequest(c: Context, error: ZodError, message = 'Invalid request') {
+  return c.json<ApiError>({ error: message, fields: fieldErrors(error) }, 400)
+}
+
+export function notFound(c: Context, message: string) {
+  return c.json<ApiError>({ error: message }, 404)
+}
@@ -0,0 +1,71 @@
+import type { MediaType } from '../../shared/contract.js'
+import { tmdbFetch } from './tmdb.js'
+
+// ── Raw TMDB shapes ────────────────────────────────────────────────────────
+interface TmdbKeyword { id: number; name: string }
+
+// ── Mood & style hints ─────────────────────────────────────────────────────
+// The client's mood and style chips, mapped to TMDB keyword names and genre ids
+// so they shape the pool and not only the prompt. Chips without a telling
+// keyword or genre (e.g. "Live-action") only reach the prompt.
+interface TagHint {
+  keywords?: string[]
+  genres?: Partial<Record<MediaType, number[]>>
+}
+
+const TAG_HINTS: Record<string, TagHint> = {
+  // Moods
+  'cozy & warm': { keywords: ['feel-good', 'cozy'] },
+  'dark & gritty': { keywords: ['neo-noir', 'gritty'] },
+  'funny & light': { keywords: ['feel-good'], genres: { movie: [35], tv: [35] } },
+  'thrilling & tense': { keywords: ['suspenseful', 'tense'] },
+  'heartwarming': { keywords: ['heartwarming'] },
+  'mind-bending': { keywords: ['mind-bending', 'twist ending', 'time loop'] },
+  'nostalgic': { keywords: ['nostalgic', 'coming of age'] },
+  'romantic': { keywords: ['romance'], genres: { movie: [10749] } },
+  'weird & surreal': { keywords: ['surreal', 'surrealism', 'absurdism'] },
+  'inspirational': { keywords: ['inspirational', 'underdog', 'based on true story'] },
+  // Styles
+  'animated': { genres: { movie: [16], tv: [16] } },
+  'cgi-heavy': { keywords: ['cgi'] },
+  'practical effects': { keywords: ['practical effects'] },
+  'black & white': { keywords: ['black and white'] },
+  'shot on film': { keywords: ['35mm film', '16mm film'] },
+  'widescreen epic': { keywords: ['epic'] },
+  'found footage': { keywords: ['found footage'] },
+  'stop motion': { keywords: ['stop motion'] },
+  'docustyle': { keywords: ['mockumentary', 'docudrama'] },
+}
+
+// The keyword names behind the given chips, as extra words for local ranking
+export function tagKeywordNames(tags: string[]): string[] {
+  return tags.flatMap(tag => TAG_HINTS[tag.toLowerCase()]?.keywords ?? [])
+}
+
+// ── Resolution ─────────────────────────────────────────────────────────────
+// Keyword names are English and resolved on exact (case-insensitive) match
+// only — TMDB's fuzzy hits are often unrelated. tmdbFetch caches the lookups.
+async function keywordId(name: string, signal?: AbortSignal): Promise<number | null> {
+  const res = await tmdbFetch<{ results?: TmdbKeyword[] }>('/search/keyword', { query: name }, signal)
+  const match = (res.results ?? []).find(k => k.name.toLowerCase() === name)
+  return match?.id ?? null
+}
+
+export interface TagQuery { tag: string; keywordIds: number[]; genreIds: number[] }
+
+// One discover query per chip that has hints for this media type. A failed
+// keyword lookup drops just that keyword.
+export async function tagQueries(type: MediaType, tags: string[], signal?: AbortSignal): Promise<TagQuery[]> {
+  const queries = await Promise.all(tags.map(async (tag): Promise<TagQuery | null> => {
+    const hint = TAG_HINTS[tag.toLowerCase()]
+    if (!hint) return null
+    const ids = await Promise.all((hint.keywords ?? []).map(name => keywordId(name, signal).catch(err => {
+      console.error(`[keywords] lookup failed for "${name}"`, err)
+      return null
+    })))
+    const keywordIds = ids.filter(id => id != null)
+    const genreIds = hint.genres?.[type] ?? []
+    return keywordIds.length > 0 || genreIds.length > 0 ? { tag, keywordIds, genreIds } : null
+  }))
+  return queries.filter(q => q != null)
+}
@@ -0,0 +1,260 @@
+import { generateObject, streamText, type LanguageModel } from 'ai'
+import { createOpenRouter } from '@openrouter/ai-sdk-provider'
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible'
+import { z } from 'zod'
+
+// ── Roles ──────────────────────────────────────────────────────────────────
+// The recommend pipeline makes three kinds of LLM call. Each role is configured
+// on its own with a "<backend>:<model>" spec:
+//   LLM_FILTERS_MODEL / LLM_SELECTION_MODEL / LLM_WRITER_MODEL  (per role)
+//   LLM_MODEL                                                   (fallback for all roles)
+// Backends:
+//   openrouter:<model>          — needs OPENROUTER_API_KEY (OPENROUTER_BASE_URL overrides the endpoint)
+//   openai-compatible:<model>   — any OpenAI-style server at LLM_LOCAL_BASE_URL
+//   stub                        — deterministic canned output, no network
+// A spec without a known backend prefix is treated as an OpenRouter model id.
+export type LlmRole = 'filters' | 'selection' | 'writer'
+
+const DEFAULT_MODELS: Record<LlmRole, string> = {
+  filters: 'openrouter:openai/gpt-4o-mini',
+  selection: 'openrouter:openai/gpt-4o-mini',
+  writer: 'openrouter:x-ai/grok-4.1-fast',
+}
+
+type Backend = 'openrouter' | 'openai-compatible' | 'stub'
+
+function parseSpec(spec: string): { backend: Backend; modelId: string } {
+  if (spec === 'stub') return { backend: 'stub', modelId: 'stub' }
+  const sep = spec.indexOf(':')
+  const prefix = sep === -1 ? '' : spec.slice(0, sep)
+  if (prefix === 'openrouter' || prefix === 'openai-compatible') {
+    return { backend: prefix, modelId: spec.slice(sep + 1) }
+  }
+  return { backend: 'openrouter', modelId: spec }
+}
+
+function specFor(role: LlmRole): { backend: Backend; modelId: string } {
+  return parseSpec(
+    process.env[`LLM_${role.toUpperCase()}_MODEL`] ?? process.env.LLM_MODEL ?? DEFAULT_MODELS[role],
+  )
+}
+
+const ROLES: LlmRole[] = ['filters', 'selection', 'writer']
+
+// Returns a human-readable reason the configured backends can't run, or null.
+export function llmConfigError(): string | null {
+  const backends = new Set(ROLES.map(r => specFor(r).backend))
+  if (backends.has('openrouter') && !process.env.OPENROUTER_API_KEY) return 'OpenRouter not configured'
+  if (backends.has('openai-compatible') && !process.env.LLM_LOCAL_BASE_URL) return 'Local LLM endpoint not configured'
+  return null
+}
+
+// ── Schemas ────────────────────────────────────────────────────────────────
+export const descriptionFiltersSchema = z.object({
+  searchQueries: z.array(z.string()).max(3)
+    .describe('2-3 short TMDB search queries (2-4 words each) that capture the essence of the description'),
+  similarTitles: z.array(z.string()).max(3)
+    .describe('2-3 specific well-known titles that match what is described'),
+})
+export type DescriptionFilters = z.infer<typeof descriptionFiltersSchema>
+
+// Index bounds follow the list actually offered; a pool of fewer than three
+// titles asks for all of them
+export function selectionSchema(poolSize: number) {
+  return z.object({
+    picks: z.array(z.object({
+      index: z.number().int().min(0).max(Math.max(poolSize - 1, 0)).describe('index from the numbered list'),
+      vibe: z.string().describe('2–4 word genre/vibe label, e.g. "Cosy British Comedy"'),
+    })).min(Math.min(3, poolSize)).max(5),
+  })
+}
+export type Selection = z.infer<ReturnType<typeof selectionSchema>>
+
+// ── Provider interface ─────────────────────────────────────────────────────
+export interface WriteUpRequest {
+  system: string
+  prompt: string
+  // Titles being written about, in order — the stub needs them, real models get them via the prompt
+  titles: string[]
+  signal?: AbortSignal
+}
+
+// `signal` cancels the model call, e.g. when the client has gone away
+export interface LlmProvider {
+  extractFilters(prompt: string, signal?: AbortSignal): Promise<DescriptionFilters>
+  selectPicks(prompt: string, poolSize: number, signal?: AbortSignal): Promise<Selection>
+  streamWriteUps(req: WriteUpRequest): AsyncIterable<string>
+}
+
+function createModelProvider(model: LanguageModel): LlmProvider {
+  return {
+    async extractFilters(prompt, signal) {
+      const { object } = await generateObject({ model, schema: descriptionFiltersSchema, prompt, abortSignal: signal })
+      return object
+    },
+    async selectPicks(prompt, poolSize, signal) {
+      const { object } = await generateObject({ model, schema: selectionSchema(poolSize), prompt, abortSignal: signal })
+      return object
+    },
+    streamWriteUps({ system, prompt, signal }) {
+      return streamText({ model, system, prompt, temperature: 0.9, maxTokens: 900, abortSignal: signal }).textStream
+    },
+  }
+}
+
+// Deterministic stand-in so dev and CI can run the whole pipeline without keys.
+const STUB_VIBES = ['Staff Pick', 'Late-Night Favourite', 'Crowd Pleaser']
+
+const stubProvider: LlmProvider = {
+  async extractFilters() {
+    return { searchQueries: [], similarTitles: [] }
+  },
+  // Always the top of the pool; indices are clamped so the result stays schema-valid
+  // even for tiny pools (duplicates are dropped downstream).
+  async selectPicks(_prompt, poolSize) {
+    return {
+      picks: STUB_VIBES.map((vibe, i) => ({ index: Math.min(i, Math.max(poolSize - 1, 0)), vibe })),
+    }
+  },
+  async *streamWriteUps({ titles }) {
+    const text = titles
+      .map(t => `${t} is a dependable choice for tonight. Settle in and enjoy it.`)
+      .join('\n---\n')
+    for (const word of text.split(/(?<= )/)) yield word
+  },
+}
+
+// ── Timeouts ───────────────────────────────────────────────────────────────
+// A stage that runs over its limit is aborted and fails like any other error,
+// so the pipeline can fall back instead of hanging. The writer's limit applies
+// between chunks.
+// LLM_<ROLE>_TIMEOUT_MS overrides the defaults.
+const DEFAULT_TIMEOUTS_MS: Record<LlmRole, number> = {
+  filters: 8_000,
+  selection: 20_000,
+  writer: 20_000,
+}
+
+const warnedTimeouts = new Set<string>()
+
+// A value that isn't a positive number would expire every call at once, so it
+// is ignored with a warning
+function timeoutFor(role: LlmRole): number {
+  const name = `LLM_${role.toUpperCase()}_TIMEOUT_MS`
+  const raw = process.env[name]
+  if (raw === undefined) return DEFAULT_TIMEOUTS_MS[role]
+  const ms = Number(raw)
+  if (Number.isFinite(ms) && ms > 0) return ms
+  if (!warnedTimeouts.has(name)) {
+    warnedTimeouts.add(name)
+    console.error(`[llm] ignoring ${name}="${raw}", using ${DEFAULT_TIMEOUTS_MS[role]}ms`)
+  }
+  return DEFAULT_TIMEOUTS_MS[role]
+}
+
+export class LlmTimeoutError extends Error {
+  constructor(role: LlmRole, ms: number) {
+    super(`${role} model timed out after ${ms}ms`)
+  }
+}
+
+// One model call's abort scope: aborted by the caller's signal or by the
+// stage's time limit, whichever comes first. touch() restarts the clock.
+function callScope(role: LlmRole, signal?: AbortSignal) {
+  const ms = timeoutFor(role)
+  const controller = new AbortController()
+  const expire = () => controller.abort(new LlmTimeoutError(role, ms))
+  let timer = setTimeout(expire, ms)
+  const forward = () => controller.abort(signal!.reason)
+  if (signal?.aborted) forward()
+  else signal?.addEventListener('abort', forward, { once: true })
+
+  // Providers that ignore the signal (the stub) still stop being waited on
+  const aborted = new Promise<never>((_, reject) => {
+    if (controller.signal.aborted) reject(controller.signal.reason)
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true })
+  })
+  aborted.catch(() => {})
+
+  return {
+    signal: controller.signal,
+    race: <T>(promise: Promise<T>) => Promise.race([promise, aborted]),
+    touch() {
+      clearTimeout(timer)
+      timer = setTimeout(expire, ms)
+    },
+    end() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', forward)
+    },
+  }
+}
+
+async function withTimeout<T>(role: LlmRole, signal: AbortSignal | undefined, call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const scope = callScope(role, signal)
+  try {
+    return await scope.race(call(scope.signal))
+  } finally {
+    scope.end()
+  }
+}
+
+async function* withIdleTimeout(role: LlmRole, req: WriteUpRequest, provider: LlmProvider): AsyncIterable<string> {
+  const scope = callScope(role, req.signal)
+  const chunks = provider.streamWriteUps({ ...req, signal: scope.signal })[Symbol.asyncIterator]()
+  try {
+    while (true) {
+      const { done, value } = await scope.race(chunks.next())
+      if (done) return
+      scope.touch()
+      yield value
+    }
+  } finally {
+    scope.end()
+    // Not awaited: a hung stream would hang its own cleanup too
+    chunks.return?.()?.catch(() => {})
+  }
+}
+
+function withTimeouts(provider: LlmProvider, role: LlmRole): LlmProvider {
+  return {
+    extractFilters: (prompt, signal) => withTimeout(role, signal, s => provider.extractFilters(prompt, s)),
+    selectPicks: (prompt, poolSize, signal) => withTimeout(role, signal, s => provider.selectPicks(prompt, poolSize, s)),
+    streamWriteUps: req => withIdleTimeout(role, req, provider),
+  }
+}
+
+// ── Resolution ─────────────────────────────────────────────────────────────
+function createProvider(role: LlmRole): LlmProvider {
+  const { backend, modelId } = specFor(role)
+  switch (backend) {
+    case 'stub':
+      return stubProvider
+    case 'openrouter':
+      return createModelProvider(createOpenRouter({
+        apiKey: process.env.OPENROUTER_API_KEY!,
+        baseURL: process.env.OPENROUTER_BASE_URL,
+      })(modelId))
+    case 'openai-compatible':
+      return createModelProvider(
+        createOpenAICompatible({
+          name: 'local',
+          baseURL: process.env.LLM_LOCAL_BASE_URL!,
+          apiKey: process.env.LLM_LOCAL_API_KEY,
+        }).chatModel(modelId),
+      )
+  }
+}
+
+const providers = new Map<LlmRole, LlmProvider>()
+
+export function llm(role: LlmRole): LlmProvider {
+  let provider = providers.get(role)
+  if (!provider) {
+    provider = withTimeouts(createProvider(role), role)
+    providers.set(role, provider)
+    const { backend, modelId } = specFor(role)
+    console.log(`[llm] ${role} → ${backend}${backend === 'stub' ? '' : `:${modelId}`}`)
+  }
+  return provider
+}
@@ -0,0 +1,272 @@
+import { Hono } from 'hono'
+import satori from 'satori'
+import { Resvg } from '@resvg/resvg-js'
+import { readFileSync } from 'fs'
+import { createRequire } from 'module'
+import {
+  ShareIdSchema,
+  SharePreferencesSchema,
+  type RecPick,
+  type SharePreferences,
+  type SharedRecommendation,
+} from '../../shared/contract.js'
+import { badRequest, notFound } from './http.js'
+import { getShare } from './shares.js'
+
+// ── Open Graph cards ───────────────────────────────────────────────────────
+// 1200×630 PNGs in the marquee style of the app, rendered with satori (JSX-ish
+// tree → SVG) and resvg (SVG → PNG). Fonts come from @fontsource so nothing is
+// fetched at runtime; posters are fetched from TMDB and inlined.
+const WIDTH = 1200
+const HEIGHT = 630
+const POSTER_BASE = 'https://image.tmdb.org/t/p/w185'
+const POSTER_TIMEOUT_MS = 3000
+
+const DISPLAY = 'Bebas Neue, Bebas Neue Ext'
+const MONO = 'DM Mono, DM Mono Ext'
+
+const C = {
+  bg: '#0D0B08',
+  card: '#120F0C',
+  border: '#2E2620',
+  red: '#C8281E',
+  cream: '#F2ECD8',
+  brass: '#C9922A',
+  muted: '#8A7050',
+  sprocket: '#1A1612',
+}
+
+const require = createRequire(import.meta.url)
+function fontFile(pkg: string, file: string): Buffer {
+  return readFileSync(require.resolve(`@fontsource/${pkg}/files/${file}`))
+}
+
+// satori resolves one file per family name, so the latin-ext subsets are
+// registered as separate families and listed as fallbacks
+const FONTS = [
+  { name: 'Bebas Neue', data: fontFile('bebas-neue', 'bebas-neue-latin-400-normal.woff') },
+  { name: 'Bebas Neue Ext', data: fontFile('bebas-neue', 'bebas-neue-latin-ext-400-normal.woff') },
+  { name: 'DM Mono', data: fontFile('dm-mono', 'dm-mono-latin-400-normal.woff') },
+  { name: 'DM Mono Ext', data: fontFile('dm-mono', 'dm-mono-latin-ext-400-normal.woff') },
+].map(f => ({ ...f, weight: 400 as const, style: 'normal' as const }))
+
+// ── Tiny element builder (satori takes React-element-shaped objects) ────────
+type Style = Record<string, string | number>
+interface Node { type: string; props: { style?: Style; children?: Child; [key: string]: unknown } }
+type Child = Node | string | (Node | string)[]
+
+function h(type: string, props: Record<string, unknown> & { style?: Style }, children?: Child): Node {
+  return { type, props: { ...props, children } }
+}
+
+// ── Pieces ─────────────────────────────────────────────────────────────────
+function marqueeLights(): Node {
+  const bulbs = Array.from({ length: 110 }, (_, i) => {
+    const lit = i % 5 === 0
+    const warm = i % 5 === 2
+    return h('div', {
+      style: {
+        width: 5, height: 5, borderRadius: 5, flexShrink: 0,
+        background: lit ? '#F0DFA0' : warm ? C.brass : '#2E2418',
+        opacity: lit ? 0.95 : warm ? 0.65 : 0.25,
+      },
+    })
+  })
+  return h('div', { style: { display: 'flex', gap: 6, overflow: 'hidden', padding: '10px 0' } }, bulbs)
+}
+
+function filmStrip(): Node {
+  const holes = Array.from({ length: 46 }, () =>
+    h('div', { style: { width: 12, height: 14, borderRadius: 2, background: C.bg, flexShrink: 0 } }),
+  )
+  return h('div', {
+    style: { display: 'flex', gap: 14, padding: '4px 6px', background: C.sprocket, overflow: 'hidden' },
+  }, holes)
+}
+
+function redBar(): Node {
+  return h('div', { style: { height: 5, background: C.red } })
+}
+
+function poster(src: string | null): Node {
+  const frame: Style = {
+    width: 150, height: 225, flexShrink: 0, display: 'flex',
+    border: `3px solid ${C.red}`, background: '#1E1A16',
+  }
+  return src
+    ? h('div', { style: frame }, h('img', { src, width: 144, height: 219, style: { objectFit: 'cover' } }))
+    : h('div', { style: frame })
+}
+
+function frame(body: Node): Node {
+  return h('div', {
+    style: {
+      width: WIDTH, height: HEIGHT, display: 'flex', flexDirection: 'column',
+      background: C.bg, color: C.cream, fontFamily: MONO,
+    },
+  }, [
+    marqueeLights(),
+    redBar(),
+    h('div', { style: { display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between', padding: '18px 48px' } }, [
+      h('div', { style: { fontFamily: DISPLAY, fontSize: 64, lineHeight: 1, letterSpacing: 2 } }, 'Something to Watch'),
+      h('div', { style: { fontSize: 16, letterSpacing: 5, color: C.muted, textTransform: 'uppercase', paddingBottom: 8 } }, '— Now Showing —'),
+    ]),
+    filmStrip(),
+    h('div', { style: { flex: 1, display: 'flex', padding: '26px 48px', background: C.card } }, body),
+    filmStrip(),
+    redBar(),
+    marqueeLights(),
+  ])
+}
+
+function titleList(picks: RecPick[]): Node {
+  return h('div', { style: { display: 'flex', flexDirection: 'column', gap: 4 } },
+    picks.map(p => h('div', { style: { display: 'flex', alignItems: 'baseline', gap: 14 } }, [
+      h('div', { style: { fontFamily: DISPLAY, fontSize: 30, letterSpacing: 1, color: C.cream } }, p.title),
+      h('div', { style: { fontSize: 14, letterSpacing: 3, color: C.brass } }, p.year),
+    ])),
+  )
+}
+
+const MEDIA_LABELS = { movie: 'Feature Film', tv: 'Television', either: 'Film & Television' }
+
+// A card has room for this many chips, each this long, and the start of the description
+const CARD_CHIPS = 5
+const CARD_CHIP_LENGTH = 24
+const CARD_DESCRIPTION_LENGTH = 120
+
+function preferenceLine(prefs: SharePreferences): string {
+  return [
+    MEDIA_LABELS[prefs.mediaType],
+    ...[...prefs.genres, ...prefs.moods, ...prefs.styles].slice(0, CARD_CHIPS).map(t => t.slice(0, CARD_CHIP_LENGTH)),
+  ].join(' · ').toUpperCase()
+}
+
+function descriptionLine(prefs: SharePreferences): string {
+  return prefs.description.trim().slice(0, CARD_DESCRIPTION_LENGTH)
+}
+
+// ── Rendering ──────────────────────────────────────────────────────────────
+async function posterDataUri(path: string | null): Promise<string | null> {
+  if (!path) return null
+  try {
+    const res = await fetch(`${POSTER_BASE}${path}`, { signal: AbortSignal.timeout(POSTER_TIMEOUT_MS) })
+    if (!res.ok) return null
+    const type = res.headers.get('content-type') ?? 'image/jpeg'
+    return `data:${type};base64,${Buffer.from(await res.arrayBuffer()).toString('base64')}`
+  } catch {
+    return null
+  }
+}
+
+async function toPng(tree: Node): Promise<Buffer> {
+  const svg = await satori(tree as Parameters<typeof satori>[0], { width: WIDTH, height: HEIGHT, fonts: FONTS })
+  return new Resvg(svg, { fitTo: { mode: 'width', value: WIDTH } }).render().asPng()
+}
+
+export async function renderShareCard(share: SharedRecommendation): Promise<Buffer> {
+  const picks = share.result.picks.slice(0, 5)
+  const posters = await Promise.all(picks.map(p => posterDataUri(p.posterPath)))
+  return toPng(frame(
+    h('div', { style: { display: 'flex', flexDirection: 'column', gap: 18, width: '100%' } }, [
+      h('div', { style: { display: 'flex', gap: 16 } }, posters.map(poster)),
+      h('div', { style: { fontSize: 13, letterSpacing: 4, color: C.muted } }, preferenceLine(share.preferences)),
+      titleList(picks.slice(0, 3)),
+    ]),
+  ))
+}
+
+export async function renderPreferencesCard(prefs: SharePreferences): Promise<Buffer> {
+  return toPng(frame(
+    h('div', { style: { display: 'flex', flexDirection: 'column', justifyContent: 'center', gap: 18, width: '100%' } }, [
+      h('div', { style: { fontSize: 16, letterSpacing: 5, color: C.muted } }, "— TONIGHT'S PROGRAMME —"),
+      h('div', { style: { fontFamily: DISPLAY, fontSize: 72, lineHeight: 1, color: C.cream } }, preferenceLine(prefs)),
+      descriptionLine(prefs)
+        ? h('div', { style: { fontSize: 20, color: C.brass } }, `“${descriptionLine(prefs)}”`)
+        : h('div', { style: { display: 'flex' } }),
+    ]),
+  ))
+}
+
+// Rendering takes a good slice of CPU, so finished cards are kept in an LRU:
+// shares never change, and preference cards are keyed by the text they show.
+// Map iteration order doubles as LRU order: a hit re-inserts the key at the end.
+const cards = new Map<string, Buffer>()
+const CARD_CACHE = 200
+
+async function cachedCard(key: string, render: () => Promise<Buffer>): Promise<Buffer> {
+  const hit = cards.get(key)
+  if (hit) {
+    cards.delete(key)
+    cards.set(key, hit)
+    return hit
+  }
+  const png = await render()
+  cards.set(key, png)
+  if (cards.size > CARD_CACHE) cards.delete(cards.keys().next().value!)
+  return png
+}
+
+// ── Share page meta tags ───────────────────────────────────────────────────
+function escapeAttr(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+}
+
+function setMeta(html: string, attr: 'property' | 'name', key: string, value: string): string {
+  const pattern = new RegExp(`(<meta ${attr}="${key}" content=")[^"]*(")`)
+  return html.replace(pattern, `$1${escapeAttr(value)}$2`)
+}
+
+// Rewrites the static index.html so crawlers that don't run JS still unfurl
+// the shared result with its own title and card.
+export function sharePageHtml(template: string, share: SharedRecommendation, origin: string): string {
+  const titles = share.result.picks.map(p => p.title)
+  const title = `Tonight's Selection — ${titles.slice(0, 3).join(', ')}`
+  const description = `${titles.length} picks from Something to Watch: ${titles.join(', ')}.`
+  const image = `${origin}/api/og/share/${share.id}.png`
+  let html = template
+  html = setMeta(html, 'property', 'og:title', title)
+  html = setMeta(html, 'property', 'og:description', description)
+  html = setMeta(html, 'property', 'og:image', image)
+  html = setMeta(html, 'property', 'og:url', `${origin}/s/${share.id}`)
+  html = setMeta(html, 'name', 'twitter:title', title)
+  html = setMeta(html, 'name', 'twitter:description', description)
+  html = setMeta(html, 'name', 'twitter:image', image)
+  return html
+}
+
+// ── Routes ─────────────────────────────────────────────────────────────────
+export const ogRoutes = new Hono()
+
+ogRoutes.get('/share/:file', async (c) => {
+  const id = ShareIdSchema.safeParse(c.req.param('file').replace(/\.png$/, ''))
+  if (!id.success) return badRequest(c, id.error)
+  const share = getShare(id.data)
+  if (!share) return notFound(c, 'Shared result not found')
+  const png = await cachedCard(`share:${share.id}`, () => renderShareCard(share))
+  return c.body(new Uint8Array(png), 200, {
+    'Content-Type': 'image/png',
+    'Cache-Control': 'public, max-age=31536000, immutable',
+  })
+})
+
+// Preference-set card, e.g. /api/og/preferences.png?mediaType=tv&genres=Comedy,Drama
+ogRoutes.get('/preferences.png', async (c) => {
+  const q = c.req.query()
+  const list = (v: string | undefined) => (v ? v.split(',').filter(Boolean) : [])
+  const prefs = SharePreferencesSchema.safeParse({
+    country: q.country,
+    mediaType: q.mediaType,
+    genres: list(q.genres),
+    moods: list(q.moods),
+    styles: list(q.styles),
+    description: q.description,
+  })
+  if (!prefs.success) return badRequest(c, prefs.error)
+  const key = `preferences:${preferenceLine(prefs.data)}\n${descriptionLine(prefs.data)}`
+  const png = await cachedCard(key, () => renderPreferencesCard(prefs.data))
+  return c.body(new Uint8Array(png), 200, {
+    'Content-Type': 'image/png',
+    'Cache-Control': 'public, max-age=86400',
+  })
+})
@@ -0,0 +1,182 @@
+import { Hono } from 'hono'
+import { randomBytes } from 'crypto'
+import {
+  DEFAULT_LOCALE,
+  FeedbackInputSchema,
+  HistoryQuerySchema,
+  LIMITS,
+  ProfileIdSchema,
+  ProfileSettingsSchema,
+  type ApiError,
+  type FeedbackEntry,
+  type FeedbackEvent,
+  type FeedbackInput,
+  type FeedbackTitle,
+  type Profile,
+  type ProfileSettings,
+} from '../../shared/contract.js'
+import { db } from './db.js'
+import { badRequest, notFound } from './http.js'
+
+// ── Rows ───────────────────────────────────────────────────────────────────
+interface ProfileRow { id: string; country: string; locale: string; provider_ids: string; created_at: number }
+interface FeedbackRow {
+  id: number; title: string; tmdb_id: number | null; media_type: string | null
+  year: string | null; verdict: string; created_at: number
+}
+
+function toProfile(row: ProfileRow): Profile {
+  return {
+    id: row.id,
+    country: row.country,
+    locale: row.locale,
+    providerIds: JSON.parse(row.provider_ids) as number[],
+    createdAt: row.created_at,
+  }
+}
+
+function toEvent(row: FeedbackRow): FeedbackEvent {
+  return {
+    id: row.id,
+    title: row.title,
+    tmdbId: row.tmdb_id,
+    mediaType: row.media_type as FeedbackEvent['mediaType'],
+    year: row.year,
+    verdict: row.verdict as FeedbackEvent['verdict'],
+    createdAt: row.created_at,
+  }
+}
+
+// ── Store ──────────────────────────────────────────────────────────────────
+export function createProfile(settings: ProfileSettings): Profile {
+  const now = Date.now()
+  const id = randomBytes(16).toString('base64url')
+  db.prepare(
+    'INSERT INTO profiles (id, country, locale, provider_ids, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+  ).run(id, settings.country, settings.locale, JSON.stringify(settings.providerIds), now, now)
+  return { id, ...settings, createdAt: now }
+}
+
+export function getProfile(id: string): Profile | null {
+  const row = db.prepare('SELECT * FROM profiles WHERE id = ?').get(id) as ProfileRow | undefined
+  return row ? toProfile(row) : null
+}
+
+export function updateProfile(id: string, patch: Partial<ProfileSettings>): Profile | null {
+  const current = getProfile(id)
+  if (!current) return null
+  const next = { ...current, ...patch }
+  db.prepare('UPDATE profiles SET country = ?, locale = ?, provider_ids = ?, updated_at = ? WHERE id = ?')
+    .run(next.country, next.locale, JSON.stringify(next.providerIds), Date.now(), id)
+  return next
+}
+
+export function addFeedback(profileId: string, input: FeedbackInput): FeedbackEvent {
+  const event = FeedbackInputSchema.parse(input)
+  const now = Date.now()
+  const { lastInsertRowid } = db.prepare(
+    'INSERT INTO feedback (profile_id, title, tmdb_id, media_type, year, verdict, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+  ).run(profileId, event.title, event.tmdbId, event.mediaType, event.year, event.verdict, now)
+  return { ...event, id: Number(lastInsertRowid), createdAt: now }
+}
+
+export function listHistory(profileId: string, limit: number): FeedbackEvent[] {
+  const rows = db.prepare('SELECT * FROM feedback WHERE profile_id = ? ORDER BY id DESC LIMIT ?')
+    .all(profileId, limit) as FeedbackRow[]
+  return rows.map(toEvent)
+}
+
+// Feedback identity: TMDB id + media type, or the lowercased title for
+// entries from clients that only send titles.
+export function feedbackKey(entry: { id: number | null; mediaType: string | null; title: string }): string {
+  return entry.id != null ? `${entry.mediaType}:${entry.id}` : `title:${entry.title.toLowerCase()}`
+}
+
+export interface FeedbackLists { liked: FeedbackEntry[]; disliked: FeedbackEntry[] }
+
+// Current verdict per title: the latest event wins, "clear" drops the title.
+// Keyed the same way as feedbackKey so id-based and title-only events don't collide.
+export function storedFeedback(profileId: string): FeedbackLists {
+  const rows = db.prepare(
+    `WITH keyed AS (
+       SELECT *, COALESCE(media_type || ':' || tmdb_id, 'title:' || lower(title)) AS key
+       FROM feedback WHERE profile_id = ?
+     )
+     SELECT * FROM keyed k WHERE id = (SELECT MAX(id) FROM keyed WHERE key = k.key)
+     ORDER BY id DESC`,
+  ).all(profileId) as FeedbackRow[]
+  const toEntry = (r: FeedbackRow): FeedbackEntry => r.tmdb_id != null && r.media_type
+    ? { id: r.tmdb_id, mediaType: r.media_type as FeedbackTitle['mediaType'], title: r.title, year: r.year ?? '' }
+    : { id: null, mediaType: null, title: r.title, year: r.year ?? '' }
+  return {
+    liked: rows.filter(r => r.verdict === 'like').map(toEntry),
+    disliked: rows.filter(r => r.verdict === 'dislike').map(toEntry),
+  }
+}
+
+// Session feedback wins over stored feedback for the same title; the newest
+// stored verdicts fill the remaining room up to the request limit.
+export function mergeFeedback(session: FeedbackLists, stored: FeedbackLists): FeedbackLists {
+  const inSession = new Set([...session.liked, ...session.disliked].map(feedbackKey))
+  const merge = (own: FeedbackEntry[], extra: FeedbackEntry[]) => {
+    const byKey = new Map<string, FeedbackEntry>()
+    for (const t of [...own, ...extra.filter(t => !inSession.has(feedbackKey(t)))]) {
+      if (!byKey.has(feedbackKey(t))) byKey.set(feedbackKey(t), t)
+    }
+    return [...byKey.values()].slice(0, LIMITS.feedback)
+  }
+  return {
+    liked: merge(session.liked, stored.liked),
+    disliked: merge(session.disliked, stored.disliked),
+  }
+}
+
+// ── Routes ─────────────────────────────────────────────────────────────────
+export const profileRoutes = new Hono()
+
+profileRoutes.post('/', async (c) => {
+  let raw: unknown
+  try { raw = await c.req.json() } catch { raw = {} }
+  const parsed = ProfileSettingsSchema.partial().safeParse(raw)
+  if (!parsed.success) return badRequest(c, parsed.error)
+  const profile = createProfile({ country: 'US', locale: DEFAULT_LOCALE, providerIds: [], ...parsed.data })
+  return c.json(profile, 201)
+})
+
+profileRoutes.get('/:id', (c) => {
+  const id = ProfileIdSchema.safeParse(c.req.param('id'))
+  if (!id.success) return badRequest(c, id.error)
+  const profile = getProfile(id.data)
+  return profile ? c.json(profile) : notFound(c, 'Profile not found')
+})
+
+profileRoutes.patch('/:id', async (c) => {
+  const id = ProfileIdSchema.safeParse(c.req.param('id'))
+  if (!id.success) return badRequest(c, id.error)
+  let raw: unknown
+  try { raw = await c.req.json() } catch { return c.json<ApiError>({ error: 'Invalid JSON' }, 400) }
+  const parsed = ProfileSettingsSchema.partial().safeParse(raw)
+  if (!parsed.success) return badRequest(c, parsed.error)
+  const profile = updateProfile(id.data, parsed.data)
+  return profile ? c.json(profile) : notFound(c, 'Profile not found')
+})
+
+profileRoutes.post('/:id/feedback', async (c) => {
+  const id = ProfileIdSchema.safeParse(c.req.param('id'))
+  if (!id.success) return badRequest(c, id.error)
+  if (!getProfile(id.data)) return notFound(c, 'Profile not found')
+  let raw: unknown
+  try { raw = await c.req.json() } catch { return c.json<ApiError>({ error: 'Invalid JSON' }, 400) }
+  const parsed = FeedbackInputSchema.safeParse(raw)
+  if (!parsed.success) return badRequest(c, parsed.error)
+  return c.json(addFeedback(id.data, parsed.data), 201)
+})
+
+profileRoutes.get('/:id/history', (c) => {
+  const id = ProfileIdSchema.safeParse(c.req.param('id'))
+  if (!id.success) return badRequest(c, id.error)
+  const query = HistoryQuerySchema.safeParse(c.req.query())
+  if (!query.success) return badRequest(c, query.error)
+  if (!getProfile(id.data)) return notFound(c, 'Profile not found')
+  return c.json({ events: listHistory(id.data, query.data.limit) })
+})
@@ -0,0 +1,100 @@
+import type { PoolItem } from './sessions.js'
+
+// ── Local ranking ──────────────────────────────────────────────────────────
+// Decides which pool titles reach the selection prompt, without any model:
+// BM25 relevance of each title's text (title, overview, genre names) to what
+// the user asked for, blended with rating and popularity priors.
+// RANK_DEBUG=1 logs every score.
+const K1 = 1.2
+const B = 0.75
+// Title words count twice: a match there says more than one in the overview
+const TITLE_BOOST = 2
+const WEIGHTS = { relevance: 0.6, rating: 0.25, popularity: 0.15 }
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'but', 'not', 'are', 'was', 'were',
+  'his', 'her', 'their', 'they', 'them', 'she', 'him', 'who', 'whom', 'its', 'has', 'have', 'had',
+  'when', 'where', 'what', 'which', 'while', 'after', 'before', 'about', 'over', 'than', 'then',
+  'one', 'two', 'all', 'out', 'can', 'will', 'more', 'most', 'some', 'any', 'only', 'own', 'very',
+  'something', 'want', 'like', 'watch', 'movie', 'film', 'show', 'series',
+])
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(t => t.length > 2 && !STOPWORDS.has(t))
+}
+
+// What the user asked for, as weighted text: their own words count fully,
+// overviews of titles they liked count less
+export interface RankQuery { text: string; weight: number }
+
+export interface RankedItem {
+  item: PoolItem
+  score: number
+  relevance: number
+  rating: number
+  popularity: number
+}
+
+// Best first; ties keep pool order. `extraText` adds words the list entry
+// doesn't carry itself, such as genre names.
+export function rankPool(
+  items: PoolItem[],
+  query: RankQuery[],
+  extraText: (item: PoolItem) => string = () => '',
+): RankedItem[] {
+  const docs = items.map(item => {
+    const title = tokenize(item.title ?? item.name ?? '')
+    const terms = [
+      ...Array.from({ length: TITLE_BOOST }, () => title).flat(),
+      ...tokenize(item.overview ?? ''),
+      ...tokenize(extraText(item)),
+    ]
+    const tf = new Map<string, number>()
+    for (const t of terms) tf.set(t, (tf.get(t) ?? 0) + 1)
+    return { tf, length: terms.length }
+  })
+  const avgLength = docs.reduce((n, d) => n + d.length, 0) / Math.max(docs.length, 1) || 1
+
+  // Each query term once, at the highest weight it was given
+  const queryTerms = new Map<string, number>()
+  for (const { text, weight } of query) {
+    for (const t of tokenize(text)) queryTerms.set(t, Math.max(queryTerms.get(t) ?? 0, weight))
+  }
+
+  // Document frequency is counted once per term, not once per matching doc
+  const idf = new Map<string, number>()
+  for (const term of queryTerms.keys()) {
+    const n = docs.reduce((count, d) => count + (d.tf.has(term) ? 1 : 0), 0)
+    idf.set(term, Math.log(1 + (docs.length - n + 0.5) / (n + 0.5)))
+  }
+
+  const bm25 = docs.map(doc => {
+    let score = 0
+    for (const [term, weight] of queryTerms) {
+      const f = doc.tf.get(term)
+      if (!f) continue
+      score += weight * idf.get(term)! * (f * (K1 + 1)) / (f + K1 * (1 - B + B * doc.length / avgLength))
+    }
+    return score
+  })
+  const maxBm25 = Math.max(0, ...bm25)
+  const maxPopularity = Math.max(0, ...items.map(item => item.popularity ?? 0))
+
+  const ranked = items.map((item, i) => {
+    const relevance = maxBm25 > 0 ? bm25[i] / maxBm25 : 0
+    const rating = (item.vote_average ?? 5) / 10
+    const popularity = maxPopularity > 0 ? Math.log1p(item.popularity ?? 0) / Math.log1p(maxPopularity) : 0
+    const score = WEIGHTS.relevance * relevance + WEIGHTS.rating * rating + WEIGHTS.popularity * popularity
+    return { item, score, relevance, rating, popularity }
+  })
+  ranked.sort((a, b) => b.score - a.score)
+
+  if (process.env.RANK_DEBUG) {
+    console.log(`[rank] query terms: ${[...queryTerms].map(([t, w]) => `${t}×${w}`).join(' ') || '(none)'}`)
+    for (const r of ranked) {
+      console.log(`[rank] ${r.score.toFixed(3)} rel=${r.relevance.toFixed(2)} rating=${r.rating.toFixed(2)} pop=${r.popularity.toFixed(2)} ${r.item.title ?? r.item.name}`)
+    }
+  }
+  return ranked
+}
@@ -0,0 +1,183 @@
+import type { Context, MiddlewareHandler } from 'hono'
+import { getConnInfo } from '@hono/node-server/conninfo'
+import type { ApiError } from '../../shared/contract.js'
+import { db } from './db.js'
+
+// ── Config ─────────────────────────────────────────────────────────────────
+// Token bucket per client: holds up to CAPACITY tokens and refills continuously
+// at REFILL_PER_MIN. Each request spends its route's cost.
+//   RATE_LIMIT_CAPACITY      bucket size (default 20)
+//   RATE_LIMIT_REFILL_PER_MIN tokens regained per minute (default 20)
+//   RATE_LIMIT_POLL_CAPACITY, RATE_LIMIT_POLL_REFILL_PER_MIN
+//                            the same for the room polling bucket (default 30 and 120)
+//   RATE_LIMIT_STORE         "memory" (default) or "sqlite" to share buckets across restarts
+//   RATE_LIMIT_ALLOWLIST     comma-separated client IPs that are never limited
+//   TRUST_PROXY_HOPS         reverse proxies in front of the app whose X-Forwarded-For
+//                            entries can be trusted (default 0 = use the socket address)
+const CAPACITY = Number(process.env.RATE_LIMIT_CAPACITY ?? 20)
+const REFILL_PER_MS = Number(process.env.RATE_LIMIT_REFILL_PER_MIN ?? 20) / 60_000
+const POLL_CAPACITY = Number(process.env.RATE_LIMIT_POLL_CAPACITY ?? 30)
+const POLL_REFILL_PER_MS = Number(process.env.RATE_LIMIT_POLL_REFILL_PER_MIN ?? 120) / 60_000
+const TRUST_PROXY_HOPS = Number(process.env.TRUST_PROXY_HOPS ?? 0)
+const ALLOWLIST = new Set(
+  (process.env.RATE_LIMIT_ALLOWLIST ?? '').split(',').map(s => s.trim()).filter(Boolean),
+)
+
+// Each client has a main bucket and a room polling bucket
+export interface BucketPolicy { capacity: number; refillPerMs: number }
+
+const POLICIES = {
+  main: { capacity: CAPACITY, refillPerMs: REFILL_PER_MS },
+  // Watch party members poll their room every couple of seconds, often several
+  // devices behind one IP. Their own faster bucket keeps that from starving
+  // searches while still slowing down anyone guessing room codes.
+  poll: { capacity: POLL_CAPACITY, refillPerMs: POLL_REFILL_PER_MS },
+} satisfies Record<string, BucketPolicy>
+type BucketName = keyof typeof POLICIES
+
+// First match wins. Cost 0 skips the limiter entirely.
+const ROUTE_COSTS: [method: string, pattern: RegExp, cost: number, bucket?: BucketName][] = [
+  ['GET', /^\/api\/health$/, 0],
+  ['GET', /^\/api\/rooms\/[^/]+$/, 1, 'poll'],
+  ['POST', /^\/api\/recommend$/, 5],
+  // One selection call and one short write-up
+  ['POST', /^\/api\/recommend\/pick$/, 2],
+  // Renders an image whenever the preference text is new
+  ['GET', /^\/api\/og\/preferences\.png$/, 3],
+]
+const DEFAULT_COST = 1
+
+export function routeCost(method: string, path: string): { cost: number; bucket: BucketName } {
+  for (const [m, pattern, cost, bucket = 'main'] of ROUTE_COSTS) {
+    if (m === method && pattern.test(path)) return { cost, bucket }
+  }
+  return { cost: DEFAULT_COST, bucket: 'main' }
+}
+
+// ── Client identity ────────────────────────────────────────────────────────
+// X-Forwarded-For is client-controlled except for the entries appended by our
+// own proxies, so with N trusted hops the client is the Nth entry from the right.
+// Anything to the left of that could be spoofed and is ignored.
+export function clientIp(c: Context): string {
+  if (TRUST_PROXY_HOPS > 0) {
+    const chain = (c.req.header('x-forwarded-for') ?? '')
+      .split(',').map(s => s.trim()).filter(Boolean)
+    const ip = chain[chain.length - TRUST_PROXY_HOPS]
+    if (ip) return ip
+  }
+  try {
+    return getConnInfo(c).remote.address ?? 'unknown'
+  } catch {
+    return 'unknown'
+  }
+}
+
+// ── Stores ─────────────────────────────────────────────────────────────────
+interface Bucket { tokens: number; updatedAt: number }
+
+export interface TakeResult {
+  allowed: boolean
+  remaining: number
+  // Until `cost` tokens are available again (0 when allowed)
+  retryAfterMs: number
+  // Until the bucket is full again
+  resetMs: number
+}
+
+export interface BucketStore {
+  take(key: string, cost: number, now: number, policy?: BucketPolicy): Promise<TakeResult>
+}
+
+function refill(bucket: Bucket | undefined, now: number, policy: BucketPolicy): number {
+  if (!bucket) return policy.capacity
+  return Math.min(policy.capacity, bucket.tokens + (now - bucket.updatedAt) * policy.refillPerMs)
+}
+
+function settle(tokens: number, cost: number, policy: BucketPolicy): { tokens: number; result: TakeResult } {
+  const allowed = tokens >= cost
+  const left = allowed ? tokens - cost : tokens
+  return {
+    tokens: left,
+    result: {
+      allowed,
+      remaining: Math.floor(left),
+      retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / policy.refillPerMs),
+      resetMs: Math.ceil((policy.capacity - left) / policy.refillPerMs),
+    },
+  }
+}
+
+// How long an idle bucket of any policy takes to fill up again
+const FULL_REFILL_MS = Math.max(...Object.values(POLICIES).map(p => p.capacity / p.refillPerMs))
+
+export function createMemoryStore(): BucketStore {
+  const buckets = new Map<string, Bucket & { policy: BucketPolicy }>()
+
+  // Full buckets carry no information — drop them to bound memory
+  setInterval(() => {
+    const now = Date.now()
+    for (const [key, b] of buckets) if (refill(b, now, b.policy) >= b.policy.capacity) buckets.delete(key)
+  }, 5 * 60_000).unref()
+
+  return {
+    async take(key, cost, now, policy = POLICIES.main) {
+      const { tokens, result } = settle(refill(buckets.get(key), now, policy), cost, policy)
+      buckets.set(key, { tokens, updatedAt: now, policy })
+      return result
+    },
+  }
+}
+
+export function createSqliteStore(): BucketStore {
+  const get = db.prepare('SELECT tokens, updated_at AS updatedAt FROM rate_buckets WHERE key = ?')
+  const put = db.prepare(
+    'INSERT INTO rate_buckets (key, tokens, updated_at) VALUES (?, ?, ?) ' +
+    'ON CONFLICT(key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at',
+  )
+  const take = db.transaction((key: string, cost: number, now: number, policy: BucketPolicy) => {
+    const { tokens, result } = settle(refill(get.get(key) as Bucket | undefined, now, policy), cost, policy)
+    put.run(key, tokens, now)
+    return result
+  })
+
+  // A bucket idle long enough to refill completely is the same as no bucket
+  const prune = db.prepare('DELETE FROM rate_buckets WHERE updated_at < ?')
+  setInterval(() => prune.run(Date.now() - FULL_REFILL_MS), 5 * 60_000).unref()
+
+  return {
+    async take(key, cost, now, policy = POLICIES.main) {
+      return take(key, cost, now, policy)
+    },
+  }
+}
+
+// ── Middleware ─────────────────────────────────────────────────────────────
+// Emits the IETF RateLimit-* headers plus Retry-After on 429.
+export function rateLimit(store: BucketStore): MiddlewareHandler {
+  return async (c, next) => {
+    const route = routeCost(c.req.method, c.req.path)
+    const policy = POLICIES[route.bucket]
+    const cost = Math.min(route.cost, policy.capacity)
+    const ip = clientIp(c)
+    if (cost === 0 || ALLOWLIST.has(ip)) return next()
+
+    // The main bucket keeps the bare IP as its key, so stored buckets carry over
+    const key = route.bucket === 'main' ? ip : `${route.bucket}:${ip}`
+    const { allowed, remaining, retryAfterMs, resetMs } = await store.take(key, cost, Date.now(), policy)
+    const windowSecs = Math.ceil(policy.capacity / policy.refillPerMs / 1000)
+    c.header('RateLimit-Policy', `${policy.capacity};w=${windowSecs}`)
+    c.header('RateLimit-Limit', String(policy.capacity))
+    c.header('RateLimit-Remaining', String(remaining))
+    c.header('RateLimit-Reset', String(Math.ceil(resetMs / 1000)))
+    if (!allowed) {
+      const retryAfter = Math.ceil(retryAfterMs / 1000)
+      c.header('Retry-After', String(retryAfter))
+      return c.json<ApiError>({ error: `Too many requests. Try again in ${retryAfter}s.` }, 429)
+    }
+    await next()
+  }
+}
+
+export function createStore(): BucketStore {
+  return process.env.RATE_LIMIT_STORE === 'sqlite' ? createSqliteStore() : createMemoryStore()
+}
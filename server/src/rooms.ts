@@ -0,0 +1,285 @@
+import { Hono } from 'hono'
+import { randomBytes } from 'crypto'
+import {
+  FiltersSchema,
+  LIMITS,
+  ParticipantIdSchema,
+  RoomCodeSchema,
+  RoomCreateSchema,
+  RoomJoinSchema,
+  RoomPreferencesSchema,
+  RoomTicketSchema,
+  RoomVoteSchema,
+  type ApiError,
+  type MediaChoice,
+  type ParsedRecommendRequest,
+  type ParsedRoomPreferences,
+  type RecommendationResult,
+  type Room,
+  type RoomCreate,
+  type RoomParticipant,
+  type RoomSession,
+  type RoomStatus,
+  type RoomTicket,
+} from '../../shared/contract.js'
+import { db } from './db.js'
+import { badRequest, notFound } from './http.js'
+import { mergeFeedback, storedFeedback, type FeedbackLists } from './profiles.js'
+
+// ── Rows ───────────────────────────────────────────────────────────────────
+interface RoomRow {
+  code: string; host_id: string; country: string; locale: string; media_type: string
+  status: string; result: string | null; created_at: number; updated_at: number
+}
+interface ParticipantRow {
+  id: string; room_code: string; name: string
+  preferences: string | null; vote: number | null; joined_at: number
+}
+
+function toRoom(row: RoomRow, people: ParticipantRow[], participantId?: string): Room {
+  const result = row.result ? JSON.parse(row.result) as RecommendationResult : null
+  const toParticipant = (p: ParticipantRow): RoomParticipant => ({
+    name: p.name,
+    isHost: p.id === row.host_id,
+    ready: p.preferences !== null,
+  })
+  const you = people.find(p => p.id === participantId)
+  return {
+    code: row.code,
+    country: row.country,
+    locale: row.locale,
+    mediaType: row.media_type as MediaChoice,
+    status: row.status as RoomStatus,
+    participants: people.map(toParticipant),
+    result,
+    votes: result ? result.picks.map((_, i) => people.filter(p => p.vote === i).map(p => p.name)) : [],
+    you: you ? { ...toParticipant(you), vote: you.vote } : null,
+    updatedAt: row.updated_at,
+  }
+}
+
+// ── Store ──────────────────────────────────────────────────────────────────
+// A room lasts an evening; idle ones are cleared out whenever a new one opens.
+const ROOM_TTL_MS = 12 * 60 * 60 * 1000
+
+// 32 letters and digits without I/O/0/1, so a code read aloud isn't misheard.
+// 256 is a multiple of 32, so every character is equally likely.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+function newCode(): string {
+  return [...randomBytes(5)].map(b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('')
+}
+
+function getRoomRow(code: string): RoomRow | undefined {
+  return db.prepare('SELECT * FROM rooms WHERE code = ? AND updated_at > ?')
+    .get(code, Date.now() - ROOM_TTL_MS) as RoomRow | undefined
+}
+
+function listParticipants(code: string): ParticipantRow[] {
+  return db.prepare('SELECT * FROM room_participants WHERE room_code = ? ORDER BY joined_at, rowid')
+    .all(code) as ParticipantRow[]
+}
+
+function touch(code: string): void {
+  db.prepare('UPDATE rooms SET updated_at = ? WHERE code = ?').run(Date.now(), code)
+}
+
+function addParticipant(code: string, name: string, id = randomBytes(16).toString('base64url')): string {
+  db.prepare('INSERT INTO room_participants (id, room_code, name, joined_at) VALUES (?, ?, ?, ?)')
+    .run(id, code, name, Date.now())
+  return id
+}
+
+export function getRoom(code: string, participantId?: string): Room | null {
+  const row = getRoomRow(code)
+  return row ? toRoom(row, listParticipants(code), participantId) : null
+}
+
+export function createRoom(input: Required<RoomCreate>): RoomSession {
+  const now = Date.now()
+  db.prepare('DELETE FROM rooms WHERE updated_at <= ?').run(now - ROOM_TTL_MS)
+  let code = newCode()
+  while (db.prepare('SELECT 1 FROM rooms WHERE code = ?').get(code)) code = newCode()
+
+  const participantId = randomBytes(16).toString('base64url')
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO rooms (code, host_id, country, locale, media_type, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    ).run(code, participantId, input.country, input.locale, input.mediaType, now, now)
+    addParticipant(code, input.name, participantId)
+  })()
+  return { participantId, room: getRoom(code, participantId)! }
+}
+
+// Returns null when the room is full
+// The count and the insert share one write-locked transaction, so joins racing
+// from several server processes can't both take the last seat
+export function joinRoom(code: string, name: string): RoomSession | null {
+  const participantId = db.transaction(() => {
+    if (listParticipants(code).length >= LIMITS.roomSize) return null
+    const id = addParticipant(code, name)
+    touch(code)
+    return id
+  }).immediate()
+  if (!participantId) return null
+  return { participantId, room: getRoom(code, participantId)! }
+}
+
+export function setPreferences(code: string, participantId: string, preferences: ParsedRoomPreferences): Room | null {
+  const { changes } = db.prepare('UPDATE room_participants SET preferences = ? WHERE id = ? AND room_code = ?')
+    .run(JSON.stringify(preferences), participantId, code)
+  if (changes === 0) return null
+  touch(code)
+  return getRoom(code, participantId)
+}
+
+export function castVote(code: string, participantId: string, index: number | null): Room | null {
+  const { changes } = db.prepare('UPDATE room_participants SET vote = ? WHERE id = ? AND room_code = ?')
+    .run(index, participantId, code)
+  if (changes === 0) return null
+  touch(code)
+  return getRoom(code, participantId)
+}
+
+// ── Group search ───────────────────────────────────────────────────────────
+// Everyone's chips and notes go into one request. Services are pooled, since
+// the group can watch on whichever of them has a title, and so are dislikes.
+function mergedRequest(room: RoomRow, people: ParticipantRow[]): ParsedRecommendRequest {
+  const ready = people.flatMap(p => p.preferences
+    ? [{ name: p.name, ...JSON.parse(p.preferences) as ParsedRoomPreferences }]
+    : [])
+  // Case-insensitive union, first spelling wins
+  const union = (lists: string[][]) => {
+    const byKey = new Map<string, string>()
+    for (const value of lists.flat()) {
+      if (!byKey.has(value.toLowerCase())) byKey.set(value.toLowerCase(), value)
+    }
+    return [...byKey.values()].slice(0, LIMITS.tags)
+  }
+  const { disliked } = ready.reduce<FeedbackLists>(
+    (lists, p) => mergeFeedback(lists, {
+      liked: [],
+      disliked: [...p.disliked, ...p.profileId ? storedFeedback(p.profileId).disliked : []],
+    }),
+    { liked: [], disliked: [] },
+  )
+
+  return {
+    country: room.country,
+    locale: room.locale,
+    mediaType: room.media_type as MediaChoice,
+    providerIds: [...new Set(ready.flatMap(p => p.providerIds))].slice(0, LIMITS.providerIds),
+    genres: union(ready.map(p => p.genres)),
+    moods: union(ready.map(p => p.moods)),
+    styles: union(ready.map(p => p.styles)),
+    description: ready
+      .filter(p => p.description.trim())
+      .map(p => `${p.name}: ${p.description.trim()}`)
+      .join('\n')
+      .slice(0, LIMITS.description),
+    filters: FiltersSchema.parse({}),
+    liked: [],
+    disliked,
+    room: { code: room.code, participantId: room.host_id },
+  }
+}
+
+export type RoomSearch =
+  | { ok: true; request: ParsedRecommendRequest }
+  | { ok: false; status: 403 | 404 | 409; error: string }
+
+// Called by /api/recommend for the host; marks the room as picking.
+export function startRoomSearch(ticket: RoomTicket): RoomSearch {
+  const room = getRoomRow(ticket.code)
+  if (!room) return { ok: false, status: 404, error: 'Room not found' }
+  if (room.host_id !== ticket.participantId) {
+    return { ok: false, status: 403, error: 'Only the host can start the search' }
+  }
+  const people = listParticipants(room.code)
+  if (!people.some(p => p.preferences !== null)) {
+    return { ok: false, status: 409, error: 'Nobody has sent their preferences yet' }
+  }
+  db.prepare(`UPDATE rooms SET status = 'picking', updated_at = ? WHERE code = ?`).run(Date.now(), room.code)
+  return { ok: true, request: mergedRequest(room, people) }
+}
+
+// A new result replaces the last one and clears its votes. Without one (the
+// search failed) the room goes back to what it showed before.
+export function finishRoomSearch(code: string, result: RecommendationResult | null): void {
+  const now = Date.now()
+  if (!result) {
+    db.prepare(
+      `UPDATE rooms SET status = CASE WHEN result IS NULL THEN 'open' ELSE 'voting' END, updated_at = ?
+       WHERE code = ?`,
+    ).run(now, code)
+    return
+  }
+  db.transaction(() => {
+    db.prepare(`UPDATE rooms SET status = 'voting', result = ?, updated_at = ? WHERE code = ?`)
+      .run(JSON.stringify(result), now, code)
+    db.prepare('UPDATE room_participants SET vote = NULL WHERE room_code = ?').run(code)
+  })()
+}
+
+// ── Routes ─────────────────────────────────────────────────────────────────
+// Clients poll GET /:code for the live state; updatedAt changes with every edit.
+export const roomRoutes = new Hono()
+
+roomRoutes.post('/', async (c) => {
+  let raw: unknown
+  try { raw = await c.req.json() } catch { return c.json<ApiError>({ error: 'Invalid JSON' }, 400) }
+  const parsed = RoomCreateSchema.safeParse(raw)
+  if (!parsed.success) return badRequest(c, parsed.error)
+  return c.json(createRoom(parsed.data), 201)
+})
+
+roomRoutes.get('/:code', (c) => {
+  const code = RoomCodeSchema.safeParse(c.req.param('code'))
+  if (!code.success) return badRequest(c, code.error)
+  const participantId = ParticipantIdSchema.optional().safeParse(c.req.query('participant'))
+  if (!participantId.success) return badRequest(c, participantId.error)
+  const room = getRoom(code.data, participantId.data)
+  return room ? c.json(room) : notFound(c, 'Room not found')
+})
+
+roomRoutes.post('/:code/participants', async (c) => {
+  const code = RoomCodeSchema.safeParse(c.req.param('code'))
+  if (!code.success) return badRequest(c, code.error)
+  if (!getRoomRow(code.data)) return notFound(c, 'Room not found')
+  let raw: unknown
+  try { raw = await c.req.json() } catch { return c.json<ApiError>({ error: 'Invalid JSON' }, 400) }
+  const parsed = RoomJoinSchema.safeParse(raw)
+  if (!parsed.success) return badRequest(c, parsed.error)
+  const session = joinRoom(code.data, parsed.data.name)
+  return session ? c.json(session, 201) : c.json<ApiError>({ error: 'Room is full' }, 409)
+})
+
+roomRoutes.put('/:code/participants/:participantId', async (c) => {
+  const ticket = RoomTicketSchema.safeParse(c.req.param())
+  if (!ticket.success) return badRequest(c, ticket.error)
+  let raw: unknown
+  try { raw = await c.req.json() } catch { return c.json<ApiError>({ error: 'Invalid JSON' }, 400) }
+  const parsed = RoomPreferencesSchema.safeParse(raw)
+  if (!parsed.success) return badRequest(c, parsed.error)
+  const room = setPreferences(ticket.data.code, ticket.data.participantId, parsed.data)
+  return room ? c.json(room) : notFound(c, 'Not in this room')
+})
+
+roomRoutes.put('/:code/participants/:participantId/vote', async (c) => {
+  const ticket = RoomTicketSchema.safeParse(c.req.param())
+  if (!ticket.success) return badRequest(c, ticket.error)
+  let raw: unknown
+  try { raw = await c.req.json() } catch { return c.json<ApiError>({ error: 'Invalid JSON' }, 400) }
+  const parsed = RoomVoteSchema.safeParse(raw)
+  if (!parsed.success) return badRequest(c, parsed.error)
+
+  const room = getRoom(ticket.data.code, ticket.data.participantId)
+  if (!room?.you) return notFound(c, 'Not in this room')
+  const { index } = parsed.data
+  if (index !== null) {
+    if (!room.result) return c.json<ApiError>({ error: 'Nothing to vote on yet' }, 409)
+    if (index >= room.result.picks.length) return c.json<ApiError>({ error: 'No such pick' }, 400)
+  }
+  return c.json(castVote(ticket.data.code, ticket.data.participantId, index))
+})
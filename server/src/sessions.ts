@@ -0,0 +1,57 @@
+import { randomBytes } from 'crypto'
+import type { MediaType } from '../../shared/contract.js'
+
+// ── Pool items ─────────────────────────────────────────────────────────────
+// TMDB list entries (only the fields we read). Every pool entry carries its
+// media type — movie and TV ids overlap.
+export interface TmdbItem {
+  id?: number
+  title?: string; name?: string
+  release_date?: string; first_air_date?: string
+  overview?: string; vote_average?: number; poster_path?: string | null
+  popularity?: number; genre_ids?: number[]
+}
+export type PoolItem = TmdbItem & { id: number; mediaType: MediaType }
+// One page of a TMDB list endpoint (discover, search, recommendations, similar)
+export interface TmdbList { results?: TmdbItem[]; total_pages?: number }
+
+// ── Search sessions ────────────────────────────────────────────────────────
+// A finished search keeps its pool so single cards can be swapped without
+// re-running TMDB. Sessions live in memory: a restart only costs the swap
+// button a "search again".
+export interface SearchSession {
+  country: string
+  locale: string
+  providerIds: number[]
+  mixed: boolean
+  // "movie", "TV show" or "movie or TV show", as the prompts phrase it
+  wants: string
+  // The taste part of the selection prompt: preferences and feedback
+  brief: string
+  pool: PoolItem[]
+  // Keys of titles already offered or ruled out, so a swap never repeats one
+  shown: Set<string>
+}
+
+const SESSION_TTL_MS = 60 * 60_000
+const MAX_SESSIONS = Number(process.env.SEARCH_SESSIONS_MAX ?? 500)
+
+// Oldest first, so the front of the map is the first to go
+const sessions = new Map<string, { session: SearchSession; expiresAt: number }>()
+
+export function saveSession(session: SearchSession): string {
+  const id = randomBytes(9).toString('base64url')
+  sessions.set(id, { session, expiresAt: Date.now() + SESSION_TTL_MS })
+  while (sessions.size > MAX_SESSIONS) sessions.delete(sessions.keys().next().value!)
+  return id
+}
+
+export function getSession(id: string): SearchSession | null {
+  const entry = sessions.get(id)
+  if (!entry) return null
+  if (Date.now() > entry.expiresAt) {
+    sessions.delete(id)
+    return null
+  }
+  return entry.session
+}
@@ -0,0 +1,42 @@
+import { Hono } from 'hono'
+import { randomBytes } from 'crypto'
+import {
+  ShareIdSchema,
+  type RecommendationResult,
+  type SharePreferences,
+  type SharedRecommendation,
+} from '../../shared/contract.js'
+import { db } from './db.js'
+import { badRequest, notFound } from './http.js'
+
+interface ShareRow { id: string; preferences: string; result: string; created_at: number }
+
+// ── Store ──────────────────────────────────────────────────────────────────
+// 6 random bytes → 8 url-safe chars; short enough to paste, too many to guess.
+export function saveShare(preferences: SharePreferences, result: RecommendationResult): string {
+  const id = randomBytes(6).toString('base64url')
+  db.prepare('INSERT INTO shares (id, preferences, result, created_at) VALUES (?, ?, ?, ?)')
+    .run(id, JSON.stringify(preferences), JSON.stringify(result), Date.now())
+  return id
+}
+
+export function getShare(id: string): SharedRecommendation | null {
+  const row = db.prepare('SELECT * FROM shares WHERE id = ?').get(id) as ShareRow | undefined
+  if (!row) return null
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    preferences: JSON.parse(row.preferences) as SharePreferences,
+    result: JSON.parse(row.result) as RecommendationResult,
+  }
+}
+
+// ── Routes ─────────────────────────────────────────────────────────────────
+export const shareRoutes = new Hono()
+
+shareRoutes.get('/:id', (c) => {
+  const id = ShareIdSchema.safeParse(c.req.param('id'))
+  if (!id.success) return badRequest(c, id.error)
+  const share = getShare(id.data)
+  return share ? c.json(share) : notFound(c, 'Shared result not found')
+})
@@ -0,0 +1,146 @@
+import type {
+  Availability,
+  MediaType,
+  Provider,
+  TitleDetails,
+} from '../../shared/contract.js'
+import { tmdbFetch } from './tmdb.js'
+
+// ── Raw TMDB shapes (only the fields we read) ───────────────────────────────
+interface TmdbPerson { name: string; character?: string; job?: string; profile_path?: string | null }
+interface TmdbVideo { key: string; name: string; site: string; type: string; official?: boolean; iso_639_1?: string }
+interface TmdbCountryProviders {
+  link?: string
+  flatrate?: Provider[]; free?: Provider[]; ads?: Provider[]; rent?: Provider[]; buy?: Provider[]
+}
+
+interface TmdbTitle {
+  id: number
+  title?: string; name?: string
+  release_date?: string; first_air_date?: string
+  overview?: string
+  poster_path?: string | null
+  genres?: { name: string }[]
+  runtime?: number | null
+  episode_run_time?: number[]
+  number_of_seasons?: number
+  number_of_episodes?: number
+  created_by?: { name: string }[]
+  credits?: { cast?: TmdbPerson[]; crew?: TmdbPerson[] }
+  videos?: { results?: TmdbVideo[] }
+  release_dates?: { results?: { iso_3166_1: string; release_dates: { certification: string; type: number }[] }[] }
+  content_ratings?: { results?: { iso_3166_1: string; rating: string }[] }
+  'watch/providers'?: { results?: Record<string, TmdbCountryProviders> }
+}
+
+const CAST_LIMIT = 8
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+function toProviders(list: Provider[] = []): Provider[] {
+  return [...list]
+    .sort((a, b) => a.display_priority - b.display_priority)
+    .map(p => ({
+      provider_id: p.provider_id,
+      provider_name: p.provider_name,
+      logo_path: p.logo_path,
+      display_priority: p.display_priority,
+    }))
+}
+
+export function toAvailability(entry: TmdbCountryProviders | undefined): Availability {
+  return {
+    link: entry?.link ?? null,
+    flatrate: toProviders(entry?.flatrate),
+    rent: toProviders(entry?.rent),
+    buy: toProviders(entry?.buy),
+  }
+}
+
+// Watchable without paying per title: subscription, free and ad-supported
+// services, deduped and in TMDB's display order.
+export interface StreamingOptions { providers: Provider[]; link: string | null }
+
+export async function getStreamingOptions(
+  mediaType: MediaType,
+  id: number,
+  country: string,
+  signal?: AbortSignal,
+): Promise<StreamingOptions> {
+  const raw = await tmdbFetch<{ results?: Record<string, TmdbCountryProviders> }>(`/${mediaType}/${id}/watch/providers`, {}, signal)
+  const entry = raw.results?.[country]
+  const byId = new Map<number, Provider>()
+  for (const p of toProviders([...entry?.flatrate ?? [], ...entry?.free ?? [], ...entry?.ads ?? []])) {
+    if (!byId.has(p.provider_id)) byId.set(p.provider_id, p)
+  }
+  return { providers: [...byId.values()], link: entry?.link ?? null }
+}
+
+function certificationFor(raw: TmdbTitle, mediaType: MediaType, country: string): string | null {
+  if (mediaType === 'tv') {
+    return raw.content_ratings?.results?.find(r => r.iso_3166_1 === country)?.rating || null
+  }
+  const dates = raw.release_dates?.results?.find(r => r.iso_3166_1 === country)?.release_dates ?? []
+  // Prefer the theatrical (type 3) rating, fall back to any non-empty one
+  const rated = dates.filter(d => d.certification)
+  return (rated.find(d => d.type === 3) ?? rated[0])?.certification ?? null
+}
+
+function trailersFrom(raw: TmdbTitle, locale: string) {
+  const language = locale.slice(0, 2)
+  return (raw.videos?.results ?? [])
+    .filter(v => v.site === 'YouTube' && (v.type === 'Trailer' || v.type === 'Teaser'))
+    // Trailers in the viewer's language first
+    .sort((a, b) =>
+      Number(b.iso_639_1 === language) - Number(a.iso_639_1 === language) ||
+      Number(b.type === 'Trailer') - Number(a.type === 'Trailer') ||
+      Number(b.official ?? false) - Number(a.official ?? false),
+    )
+    .slice(0, 3)
+    .map(v => ({ key: v.key, name: v.name }))
+}
+
+// ── Details ────────────────────────────────────────────────────────────────
+// One TMDB call via append_to_response. The raw response covers every country,
+// so tmdbFetch caches it once per title and locale, and each request slices out its region.
+export async function getTitleDetails(
+  mediaType: MediaType,
+  id: number,
+  country: string,
+  locale: string,
+): Promise<TitleDetails> {
+  const append = mediaType === 'movie'
+    ? 'credits,videos,release_dates,watch/providers'
+    : 'credits,videos,content_ratings,watch/providers'
+  const raw = await tmdbFetch<TmdbTitle>(`/${mediaType}/${id}`, {
+    append_to_response: append,
+    language: locale,
+    // Videos are filtered by language too; keep English and untagged trailers as a fallback
+    include_video_language: `${locale.slice(0, 2)},en,null`,
+  })
+
+  const makers = mediaType === 'movie'
+    ? (raw.credits?.crew ?? []).filter(p => p.job === 'Director').map(p => p.name)
+    : (raw.created_by ?? []).map(p => p.name)
+
+  return {
+    id: raw.id,
+    mediaType,
+    title: raw.title ?? raw.name ?? 'Unknown',
+    year: (raw.release_date ?? raw.first_air_date ?? '').slice(0, 4),
+    overview: raw.overview ?? '',
+    posterPath: raw.poster_path ?? null,
+    genres: (raw.genres ?? []).map(g => g.name),
+    runtime: mediaType === 'movie' ? raw.runtime || null : raw.episode_run_time?.[0] ?? null,
+    seasons: raw.number_of_seasons ?? null,
+    episodes: raw.number_of_episodes ?? null,
+    cast: (raw.credits?.cast ?? []).slice(0, CAST_LIMIT).map(p => ({
+      name: p.name,
+      character: p.character ?? '',
+      profilePath: p.profile_path ?? null,
+    })),
+    makers: [...new Set(makers)],
+    certification: certificationFor(raw, mediaType, country),
+    trailers: trailersFrom(raw, locale),
+    availability: toAvailability(raw['watch/providers']?.results?.[country]),
+  }
+}
@@ -0,0 +1,180 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { DEFAULT_LOCALE } from '../../shared/contract.js'
+
+// ── TTLs ───────────────────────────────────────────────────────────────────
+// First match wins. Provider lists, genre maps and keyword ids barely change; discover and
+// search pages drift with popularity so they are kept short.
+const MINUTE = 60_000
+const HOUR = 60 * MINUTE
+
+const TTL_RULES: [RegExp, number][] = [
+  [/^\/watch\/providers\//, 24 * HOUR],
+  [/^\/genre\//, 24 * HOUR],
+  [/^\/configuration/, 24 * HOUR],
+  [/^\/search\/keyword/, 24 * HOUR],
+  [/^\/search\//, 6 * HOUR],
+  [/^\/(movie|tv)\/\d+/, 6 * HOUR],
+  [/^\/discover\//, 15 * MINUTE],
+]
+const DEFAULT_TTL = HOUR
+
+function ttlFor(path: string): number {
+  for (const [pattern, ttl] of TTL_RULES) if (pattern.test(path)) return ttl
+  return DEFAULT_TTL
+}
+
+// ── Cache ──────────────────────────────────────────────────────────────────
+interface CacheEntry { value: unknown; expiresAt: number }
+// One upstream call shared by every caller asking for the same key. Callers
+// without a signal are never counted as leaving.
+interface InFlight { key: string; promise: Promise<unknown>; controller: AbortController; waiters: number }
+
+const DEFAULT_MAX_ENTRIES = 1000
+
+// A whole number of entries; 0 turns the cache off. Anything else would break
+// the eviction loop, so it's ignored with a warning.
+function maxEntries(): number {
+  const raw = process.env.TMDB_CACHE_MAX_ENTRIES
+  if (raw === undefined) return DEFAULT_MAX_ENTRIES
+  const value = Number(raw)
+  if (raw.trim() !== '' && Number.isSafeInteger(value) && value >= 0) return value
+  console.error(`[tmdb] ignoring TMDB_CACHE_MAX_ENTRIES="${raw}", using ${DEFAULT_MAX_ENTRIES}`)
+  return DEFAULT_MAX_ENTRIES
+}
+
+const MAX_ENTRIES = maxEntries()
+const CACHE_FILE = process.env.TMDB_CACHE_FILE
+
+// Map iteration order doubles as LRU order: a hit re-inserts the key at the end.
+const cache = new Map<string, CacheEntry>()
+const inFlight = new Map<string, InFlight>()
+let dirty = false
+
+function cacheKey(path: string, params: Record<string, string>): string {
+  const sorted = Object.keys(params).sort().map(k => `${k}=${params[k]}`)
+  return `${path}?${sorted.join('&')}`
+}
+
+function cacheGet(key: string): unknown {
+  const entry = cache.get(key)
+  if (!entry) return undefined
+  cache.delete(key)
+  if (Date.now() > entry.expiresAt) return undefined
+  cache.set(key, entry)
+  return entry.value
+}
+
+function cacheSet(key: string, value: unknown, ttl: number) {
+  cache.delete(key)
+  cache.set(key, { value, expiresAt: Date.now() + ttl })
+  while (cache.size > MAX_ENTRIES) cache.delete(cache.keys().next().value!)
+  dirty = true
+}
+
+// ── Disk persistence (opt-in via TMDB_CACHE_FILE) ───────────────────────────
+function loadCache() {
+  if (!CACHE_FILE) return
+  try {
+    const entries = JSON.parse(readFileSync(CACHE_FILE, 'utf8')) as [string, CacheEntry][]
+    const now = Date.now()
+    for (const [key, entry] of MAX_ENTRIES > 0 ? entries.slice(-MAX_ENTRIES) : []) {
+      if (entry.expiresAt > now) cache.set(key, entry)
+    }
+    console.log(`[tmdb] loaded ${cache.size} cached responses from ${CACHE_FILE}`)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') console.error('[tmdb] cache load failed', err)
+  }
+}
+
+export function saveCache() {
+  if (!CACHE_FILE || !dirty) return
+  try {
+    // Write-then-rename so a crash mid-write never leaves a truncated file
+    const tmp = `${CACHE_FILE}.tmp`
+    mkdirSync(dirname(CACHE_FILE), { recursive: true })
+    writeFileSync(tmp, JSON.stringify([...cache]))
+    renameSync(tmp, CACHE_FILE)
+    dirty = false
+  } catch (err) {
+    console.error('[tmdb] cache save failed', err)
+  }
+}
+
+// The final flush on shutdown is hooked up by the server entry point
+loadCache()
+if (CACHE_FILE) setInterval(saveCache, 5 * MINUTE).unref()
+
+// ── Upstream ───────────────────────────────────────────────────────────────
+// TMDB_BASE_URL points the app at a stand-in (see test/fakes) instead of TMDB.
+const BASE_URL = (process.env.TMDB_BASE_URL ?? 'https://api.themoviedb.org/3').replace(/\/$/, '')
+
+// ── Errors ─────────────────────────────────────────────────────────────────
+export class TmdbError extends Error {
+  constructor(public status: number, body: string) {
+    super(`TMDB ${status}: ${body}`)
+  }
+}
+
+// ── Fetch ──────────────────────────────────────────────────────────────────
+// Cached by normalized path + params; concurrent identical requests share one
+// upstream call. Failures are never cached. Pass `language` (a locale such as
+// de-DE) to localize titles, overviews and posters; English otherwise.
+// Aborting `signal` rejects this call at once; the shared upstream call is
+// cancelled when every caller waiting on it has given up.
+export async function tmdbFetch<T = Record<string, unknown>>(
+  path: string,
+  params: Record<string, string> = {},
+  signal?: AbortSignal,
+): Promise<T> {
+  signal?.throwIfAborted()
+  const query = { language: DEFAULT_LOCALE, ...params }
+  const key = cacheKey(path, query)
+
+  const cached = cacheGet(key)
+  if (cached !== undefined) return cached as T
+
+  let flight = inFlight.get(key)
+  if (!flight) {
+    const controller = new AbortController()
+    const promise = (async () => {
+      const url = new URL(`${BASE_URL}${path}`)
+      url.searchParams.set('api_key', process.env.TMDB_API_KEY!)
+      for (const [k, v] of Object.entries(query)) url.searchParams.set(k, v)
+      const res = await fetch(url.toString(), { signal: controller.signal })
+      if (!res.ok) throw new TmdbError(res.status, await res.text())
+      const json = await res.json()
+      cacheSet(key, json, ttlFor(path))
+      return json
+    })()
+    const current: InFlight = { key, promise, controller, waiters: 0 }
+    inFlight.set(key, current)
+    const settle = () => forget(current)
+    promise.then(settle, settle)
+    flight = current
+  }
+  return waitFor(flight, signal) as Promise<T>
+}
+
+function forget(flight: InFlight) {
+  if (inFlight.get(flight.key) === flight) inFlight.delete(flight.key)
+}
+
+function waitFor(flight: InFlight, signal?: AbortSignal): Promise<unknown> {
+  flight.waiters++
+  if (!signal) return flight.promise
+  return new Promise((resolve, reject) => {
+    const leave = () => {
+      // Nobody is left to use the answer: later callers start a fresh request
+      if (--flight.waiters === 0) {
+        forget(flight)
+        flight.controller.abort(signal.reason)
+      }
+      reject(signal.reason)
+    }
+    signal.addEventListener('abort', leave, { once: true })
+    flight.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', leave))
+  })
+}
@@ -0,0 +1,193 @@
+import { Hono } from 'hono'
+import {
+  LIMITS,
+  ProfileIdSchema,
+  WatchlistInputSchema,
+  WatchlistKeySchema,
+  WatchlistUpdateSchema,
+  type ApiError,
+  type FeedbackTitle,
+  type MediaType,
+  type Profile,
+  type Provider,
+  type WatchlistInput,
+  type WatchlistItem,
+} from '../../shared/contract.js'
+import { db } from './db.js'
+import { badRequest, notFound } from './http.js'
+import { getProfile } from './profiles.js'
+import { getStreamingOptions } from './title.js'
+
+// ── Rows ───────────────────────────────────────────────────────────────────
+interface WatchlistRow {
+  profile_id: string; media_type: string; tmdb_id: number
+  title: string; year: string; poster_path: string | null
+  added_at: number; watched_at: number | null
+  checked_for: string | null; checked_at: number | null
+  providers: string; arriving: string; leaving: string; changed_at: number | null
+}
+
+function toItem(row: WatchlistRow): WatchlistItem {
+  return {
+    id: row.tmdb_id,
+    mediaType: row.media_type as MediaType,
+    title: row.title,
+    year: row.year,
+    posterPath: row.poster_path,
+    addedAt: row.added_at,
+    watchedAt: row.watched_at,
+    availability: {
+      providers: JSON.parse(row.providers) as Provider[],
+      arriving: JSON.parse(row.arriving) as Provider[],
+      leaving: JSON.parse(row.leaving) as Provider[],
+      changedAt: row.changed_at,
+      checkedAt: row.checked_at,
+    },
+  }
+}
+
+// ── Store ──────────────────────────────────────────────────────────────────
+function getRow(profileId: string, mediaType: MediaType, tmdbId: number): WatchlistRow | undefined {
+  return db.prepare('SELECT * FROM watchlist WHERE profile_id = ? AND media_type = ? AND tmdb_id = ?')
+    .get(profileId, mediaType, tmdbId) as WatchlistRow | undefined
+}
+
+function listRows(profileId: string): WatchlistRow[] {
+  return db.prepare('SELECT * FROM watchlist WHERE profile_id = ? ORDER BY added_at DESC')
+    .all(profileId) as WatchlistRow[]
+}
+
+// Re-adding a saved title refreshes its details but keeps its history.
+// Returns null when the list is full.
+export function addToWatchlist(profileId: string, input: WatchlistInput): WatchlistItem | null {
+  const item = WatchlistInputSchema.parse(input)
+  if (!getRow(profileId, item.mediaType, item.id)) {
+    const { count } = db.prepare('SELECT COUNT(*) AS count FROM watchlist WHERE profile_id = ?')
+      .get(profileId) as { count: number }
+    if (count >= LIMITS.watchlist) return null
+  }
+  db.prepare(
+    `INSERT INTO watchlist (profile_id, media_type, tmdb_id, title, year, poster_path, added_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (profile_id, media_type, tmdb_id)
+     DO UPDATE SET title = excluded.title, year = excluded.year, poster_path = excluded.poster_path`,
+  ).run(profileId, item.mediaType, item.id, item.title, item.year, item.posterPath, Date.now())
+  return toItem(getRow(profileId, item.mediaType, item.id)!)
+}
+
+export function setWatched(profileId: string, mediaType: MediaType, tmdbId: number, watched: boolean): WatchlistItem | null {
+  db.prepare('UPDATE watchlist SET watched_at = ? WHERE profile_id = ? AND media_type = ? AND tmdb_id = ?')
+    .run(watched ? Date.now() : null, profileId, mediaType, tmdbId)
+  const row = getRow(profileId, mediaType, tmdbId)
+  return row ? toItem(row) : null
+}
+
+export function removeFromWatchlist(profileId: string, mediaType: MediaType, tmdbId: number): boolean {
+  return db.prepare('DELETE FROM watchlist WHERE profile_id = ? AND media_type = ? AND tmdb_id = ?')
+    .run(profileId, mediaType, tmdbId).changes > 0
+}
+
+// Watched titles, shaped like feedback so /api/recommend can exclude them
+export function watchedTitles(profileId: string): FeedbackTitle[] {
+  const rows = db.prepare(
+    'SELECT * FROM watchlist WHERE profile_id = ? AND watched_at IS NOT NULL ORDER BY watched_at DESC',
+  ).all(profileId) as WatchlistRow[]
+  return rows.map(r => ({ id: r.tmdb_id, mediaType: r.media_type as MediaType, title: r.title, year: r.year }))
+}
+
+// ── Availability ───────────────────────────────────────────────────────────
+// TMDB only reports where a title is now, so arrivals and departures are found
+// by diffing against the previous check. A check for a different country or
+// service selection starts a fresh baseline instead of flagging everything.
+// Like the cards, it counts subscription, free and ad-supported services.
+function servicesKey(profile: Profile): string {
+  return `${profile.country}:${[...profile.providerIds].sort((a, b) => a - b).join(',')}`
+}
+
+async function checkAvailability(profile: Profile, row: WatchlistRow, signal?: AbortSignal): Promise<void> {
+  const { providers } = await getStreamingOptions(row.media_type as MediaType, row.tmdb_id, profile.country, signal)
+  const selected = new Set(profile.providerIds)
+  const now = selected.size > 0 ? providers.filter(p => selected.has(p.provider_id)) : providers
+
+  const forKey = servicesKey(profile)
+  const before = JSON.parse(row.providers) as Provider[]
+  const beforeIds = new Set(before.map(p => p.provider_id))
+  const nowIds = new Set(now.map(p => p.provider_id))
+  const arriving = now.filter(p => !beforeIds.has(p.provider_id))
+  const leaving = before.filter(p => !nowIds.has(p.provider_id))
+  const checkedAt = Date.now()
+
+  // Flags describe the latest change and stay until the next one; a new baseline clears them
+  const sameBaseline = row.checked_for === forKey
+  const flags = sameBaseline && (arriving.length > 0 || leaving.length > 0)
+    ? { arriving: JSON.stringify(arriving), leaving: JSON.stringify(leaving), changedAt: checkedAt }
+    : sameBaseline
+      ? { arriving: row.arriving, leaving: row.leaving, changedAt: row.changed_at }
+      : { arriving: '[]', leaving: '[]', changedAt: null }
+
+  db.prepare(
+    `UPDATE watchlist SET checked_for = ?, checked_at = ?, providers = ?,
+       arriving = ?, leaving = ?, changed_at = ?
+     WHERE profile_id = ? AND media_type = ? AND tmdb_id = ?`,
+  ).run(
+    forKey, checkedAt, JSON.stringify(now), flags.arriving, flags.leaving, flags.changedAt,
+    row.profile_id, row.media_type, row.tmdb_id,
+  )
+}
+
+// Lists the watchlist after re-checking unwatched titles. tmdbFetch's cache
+// keeps repeat visits from hitting TMDB; a failed check keeps the last result.
+export async function listWatchlist(profile: Profile, signal?: AbortSignal): Promise<WatchlistItem[]> {
+  const pending = listRows(profile.id).filter(r => r.watched_at == null)
+  const checks = await Promise.allSettled(pending.map(r => checkAvailability(profile, r, signal)))
+  const failed = checks.filter(r => r.status === 'rejected')
+  if (failed.length > 0) console.error(`[watchlist] ${failed.length} availability checks failed`)
+  return listRows(profile.id).map(toItem)
+}
+
+// ── Routes ─────────────────────────────────────────────────────────────────
+// Mounted next to profileRoutes under /api/profiles.
+export const watchlistRoutes = new Hono()
+
+watchlistRoutes.get('/:id/watchlist', async (c) => {
+  const id = ProfileIdSchema.safeParse(c.req.param('id'))
+  if (!id.success) return badRequest(c, id.error)
+  const profile = getProfile(id.data)
+  if (!profile) return notFound(c, 'Profile not found')
+  return c.json({ items: await listWatchlist(profile, c.req.raw.signal) })
+})
+
+watchlistRoutes.post('/:id/watchlist', async (c) => {
+  const id = ProfileIdSchema.safeParse(c.req.param('id'))
+  if (!id.success) return badRequest(c, id.error)
+  if (!getProfile(id.data)) return notFound(c, 'Profile not found')
+  let raw: unknown
+  try { raw = await c.req.json() } catch { return c.json<ApiError>({ error: 'Invalid JSON' }, 400) }
+  const parsed = WatchlistInputSchema.safeParse(raw)
+  if (!parsed.success) return badRequest(c, parsed.error)
+  const item = addToWatchlist(id.data, parsed.data)
+  return item ? c.json(item, 201) : c.json<ApiError>({ error: 'Watchlist is full' }, 409)
+})
+
+watchlistRoutes.patch('/:id/watchlist/:mediaType/:tmdbId', async (c) => {
+  const id = ProfileIdSchema.safeParse(c.req.param('id'))
+  if (!id.success) return badRequest(c, id.error)
+  const key = WatchlistKeySchema.safeParse(c.req.param())
+  if (!key.success) return badRequest(c, key.error)
+  let raw: unknown
+  try { raw = await c.req.json() } catch { return c.json<ApiError>({ error: 'Invalid JSON' }, 400) }
+  const parsed = WatchlistUpdateSchema.safeParse(raw)
+  if (!parsed.success) return badRequest(c, parsed.error)
+  const item = setWatched(id.data, key.data.mediaType, key.data.tmdbId, parsed.data.watched)
+  return item ? c.json(item) : notFound(c, 'Not on the watchlist')
+})
+
+watchlistRoutes.delete('/:id/watchlist/:mediaType/:tmdbId', (c) => {
+  const id = ProfileIdSchema.safeParse(c.req.param('id'))
+  if (!id.success) return badRequest(c, id.error)
+  const key = WatchlistKeySchema.safeParse(c.req.param())
+  if (!key.success) return badRequest(c, key.error)
+  return removeFromWatchlist(id.data, key.data.mediaType, key.data.tmdbId)
+    ? c.body(null, 204)
+    : notFound(c, 'Not on the watchlist')
+})
@@ -0,0 +1,64 @@
+import { after, afterEach, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ApiError, Region } from '../../shared/contract.js'
+import { startHarness, type Harness } from './helpers.js'
+
+// The app reads TMDB_BASE_URL once at import, so both suites share one harness
+let h: Harness
+before(async () => { h = await startHarness() })
+afterEach(() => h.tmdb.reset())
+after(() => h.close())
+
+describe('GET /api/regions', () => {
+  it('lists every TMDB region by localized name', async () => {
+    const res = await h.app.request('/api/regions?locale=de-DE')
+    assert.equal(res.status, 200)
+    assert.match(res.headers.get('cache-control') ?? '', /max-age/)
+    const regions = await res.json() as Region[]
+    assert.deepEqual(regions.map(r => r.code), ['DE', 'AT', 'GB', 'US'])
+    assert.equal(regions[0].name, 'Deutschland')
+    assert.equal(h.tmdb.requests[0].searchParams.get('language'), 'de-DE')
+  })
+
+  it('returns 502 when TMDB fails', async () => {
+    h.tmdb.fail('/watch/providers/regions')
+    const res = await h.app.request('/api/regions')
+    assert.equal(res.status, 502)
+    assert.equal((await res.json() as ApiError).error, 'Could not load regions')
+  })
+})
+
+describe('GET /api/genres', () => {
+  async function genres(query: string): Promise<string[]> {
+    const res = await h.app.request(`/api/genres?${query}`)
+    assert.equal(res.status, 200)
+    return await res.json() as string[]
+  }
+
+  it('lists the genres of the media type', async () => {
+    const movie = await genres('mediaType=movie')
+    assert.ok(movie.includes('History'))
+    assert.ok(!movie.includes('Kids'))
+    const tv = await genres('mediaType=tv')
+    assert.ok(tv.includes('Sci-Fi & Fantasy'))
+    assert.ok(!tv.includes('History'))
+  })
+
+  it('lists each genre once for "either"', async () => {
+    const either = await genres('mediaType=either')
+    assert.equal(either.filter(g => g === 'Drama').length, 1)
+    assert.ok(either.includes('History'))
+    assert.ok(either.includes('Kids'))
+  })
+
+  it('asks TMDB in the requested locale', async () => {
+    h.tmdb.override({ path: '/genre/movie/list', query: { language: 'es-ES' }, body: { genres: [{ id: 35, name: 'Comedia' }] } })
+    assert.deepEqual(await genres('mediaType=movie&locale=es-ES'), ['Comedia'])
+  })
+
+  it('rejects an unknown media type', async () => {
+    const res = await h.app.request('/api/genres?mediaType=film')
+    assert.equal(res.status, 400)
+    assert.ok((await res.json() as ApiError).fields?.mediaType)
+  })
+})
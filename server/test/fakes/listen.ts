@@ -0,0 +1,25 @@
+import { serve } from '@hono/node-server'
+import type { Hono } from 'hono'
+import type { Server } from 'http'
+import type { AddressInfo } from 'net'
+
+export interface Listening {
+  url: string
+  close(): Promise<void>
+}
+
+// Port 0 picks a free port, so suites and a running dev server never collide.
+export function listen(app: Hono, port = 0): Promise<Listening> {
+  return new Promise(resolve => {
+    const server = serve({ fetch: app.fetch, port }, (info: AddressInfo) => {
+      resolve({
+        url: `http://localhost:${info.port}`,
+        close: () => new Promise(done => {
+          server.close(() => done())
+          // Keep-alive sockets from the app's fetch would otherwise hold close() open
+          ;(server as Server).closeAllConnections()
+        }),
+      })
+    })
+  })
+}
@@ -0,0 +1,124 @@
+import { Hono } from 'hono'
+import { streamSSE } from 'hono/streaming'
+import { listen, type Listening } from './listen.js'
+
+// ── Scripts ────────────────────────────────────────────────────────────────
+// Each model id gets a script: given the chat request, return an object (for
+// structured calls) or a string (for streamed text), or a promise of one to
+// answer late. Throwing answers with 500.
+export interface ChatRequest {
+  model: string
+  messages: { role: string; content: string | { type: string; text?: string }[] }[]
+  stream?: boolean
+  tools?: { type: 'function'; function: { name: string } }[]
+}
+
+export type Script = (req: ChatRequest) => unknown
+
+export function promptText(req: ChatRequest): string {
+  return req.messages
+    .map(m => typeof m.content === 'string' ? m.content : m.content.map(p => p.text ?? '').join(''))
+    .join('\n')
+}
+
+// Sensible defaults for running the app against the fake by hand
+export const DEFAULT_SCRIPTS: Record<string, Script> = {
+  'fake-filters': () => ({ searchQueries: [], similarTitles: [] }),
+  'fake-selection': () => ({
+    picks: [
+      { index: 0, vibe: 'Fake Favourite' },
+      { index: 1, vibe: 'Fake Classic' },
+      { index: 2, vibe: 'Fake Sleeper Hit' },
+    ],
+  }),
+  'fake-writer': (req) => {
+    const count = promptText(req).split('\n').filter(l => /^\d+\. /.test(l)).length
+    return Array.from({ length: count }, (_, i) => `Write-up number ${i + 1}, warm and specific.`).join('\n---\n')
+  },
+}
+
+// ── Fake server ────────────────────────────────────────────────────────────
+// Implements POST /chat/completions the way OpenRouter and other
+// OpenAI-compatible servers do: tool calls when the client asks for a tool,
+// a JSON message otherwise, and SSE chunks when streaming.
+export interface FakeLlm extends Listening {
+  requests: ChatRequest[]
+  script(model: string, script: Script): void
+  reset(): void
+}
+
+function completionId() {
+  return `chatcmpl-${Math.random().toString(36).slice(2, 10)}`
+}
+
+export async function startFakeLlm(port?: number): Promise<FakeLlm> {
+  const requests: ChatRequest[] = []
+  let scripts: Record<string, Script> = { ...DEFAULT_SCRIPTS }
+
+  const app = new Hono()
+  app.post('/chat/completions', async (c) => {
+    const req = await c.req.json<ChatRequest>()
+    requests.push(req)
+
+    const script = scripts[req.model]
+    if (!script) return c.json({ error: { message: `Unknown model ${req.model}` } }, 404)
+    let output: unknown
+    try {
+      output = await script(req)
+    } catch (err) {
+      return c.json({ error: { message: err instanceof Error ? err.message : 'Fake failure' } }, 500)
+    }
+
+    const id = completionId()
+    const created = Math.floor(Date.now() / 1000)
+    const usage = { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 }
+
+    if (req.stream) {
+      const text = typeof output === 'string' ? output : JSON.stringify(output)
+      return streamSSE(c, async (stream) => {
+        for (const piece of text.split(/(?<= )/)) {
+          await stream.writeSSE({
+            data: JSON.stringify({
+              id, created, model: req.model, object: 'chat.completion.chunk',
+              choices: [{ index: 0, delta: { role: 'assistant', content: piece }, finish_reason: null }],
+            }),
+          })
+        }
+        await stream.writeSSE({
+          data: JSON.stringify({
+            id, created, model: req.model, object: 'chat.completion.chunk',
+            choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage,
+          }),
+        })
+        await stream.writeSSE({ data: '[DONE]' })
+      })
+    }
+
+    const tool = req.tools?.[0]?.function.name
+    const message = tool
+      ? {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: `call_${id}`, type: 'function', function: { name: tool, arguments: JSON.stringify(output) } }],
+        }
+      : { role: 'assistant', content: typeof output === 'string' ? output : JSON.stringify(output) }
+    return c.json({
+      id, created, model: req.model, object: 'chat.completion',
+      choices: [{ index: 0, message, finish_reason: tool ? 'tool_calls' : 'stop' }],
+      usage,
+    })
+  })
+
+  const server = await listen(app, port)
+  return {
+    ...server,
+    requests,
+    script(model, script) {
+      scripts[model] = script
+    },
+    reset() {
+      scripts = { ...DEFAULT_SCRIPTS }
+      requests.length = 0
+    },
+  }
+}
@@ -0,0 +1,21 @@
+import { loadFixture, startFakeTmdb } from './tmdb.js'
+import { startFakeLlm } from './llm.js'
+
+// ── Standalone fakes ───────────────────────────────────────────────────────
+// `npm run fakes` serves both stand-ins on fixed ports so the real app can be
+// pointed at them with the env printed below.
+const tmdb = await startFakeTmdb(loadFixture('tmdb'), Number(process.env.FAKE_TMDB_PORT ?? 4010))
+const llm = await startFakeLlm(Number(process.env.FAKE_LLM_PORT ?? 4011))
+
+console.log(`
+  Fake TMDB → ${tmdb.url}
+  Fake LLM  → ${llm.url}
+
+  TMDB_API_KEY=fake
+  TMDB_BASE_URL=${tmdb.url}
+  OPENROUTER_API_KEY=fake
+  OPENROUTER_BASE_URL=${llm.url}
+  LLM_FILTERS_MODEL=openrouter:fake-filters
+  LLM_SELECTION_MODEL=openrouter:fake-selection
+  LLM_WRITER_MODEL=openrouter:fake-writer
+`)
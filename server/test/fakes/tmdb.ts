@@ -0,0 +1,70 @@
+import { Hono } from 'hono'
+import { readFileSync } from 'fs'
+import { listen, type Listening } from './listen.js'
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+// A route answers a path, optionally only when the listed query params match.
+// Routes are tried in order, so put specific ones before catch-alls.
+export interface TmdbRoute {
+  path: string
+  query?: Record<string, string>
+  status?: number
+  body: unknown
+}
+
+export function loadFixture(name: string): TmdbRoute[] {
+  return JSON.parse(readFileSync(new URL(`../fixtures/${name}.json`, import.meta.url), 'utf8'))
+}
+
+// ── Fake server ────────────────────────────────────────────────────────────
+// Speaks just enough of the TMDB v3 API for the app: JSON responses keyed by
+// path + params, 401 without an api_key, 404 for anything unknown.
+export interface FakeTmdb extends Listening {
+  // Every request received, newest last
+  requests: URL[]
+  // Takes precedence over the fixture until reset()
+  override(...routes: TmdbRoute[]): void
+  // Answers matching requests with an error status
+  fail(path: string, query?: Record<string, string>, status?: number): void
+  reset(): void
+}
+
+function matches(route: TmdbRoute, url: URL): boolean {
+  if (route.path !== url.pathname) return false
+  return Object.entries(route.query ?? {}).every(([k, v]) => url.searchParams.get(k) === v)
+}
+
+export async function startFakeTmdb(fixture: TmdbRoute[], port?: number): Promise<FakeTmdb> {
+  const requests: URL[] = []
+  let overrides: TmdbRoute[] = []
+
+  const app = new Hono()
+  app.get('*', (c) => {
+    const url = new URL(c.req.url)
+    requests.push(url)
+    if (!url.searchParams.get('api_key')) {
+      return c.json({ success: false, status_code: 7, status_message: 'Invalid API key' }, 401)
+    }
+    const route = [...overrides, ...fixture].find(r => matches(r, url))
+    if (!route) {
+      return c.json({ success: false, status_code: 34, status_message: 'Not found' }, 404)
+    }
+    return c.json(route.body as object, (route.status ?? 200) as 200)
+  })
+
+  const server = await listen(app, port)
+  return {
+    ...server,
+    requests,
+    override(...routes) {
+      overrides = [...routes, ...overrides]
+    },
+    fail(path, query, status = 500) {
+      overrides = [{ path, query, status, body: { success: false, status_message: 'Fake failure' } }, ...overrides]
+    },
+    reset() {
+      overrides = []
+      requests.length = 0
+    },
+  }
+}
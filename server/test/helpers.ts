@@ -0,0 +1,70 @@
+import type { Hono } from 'hono'
+import type { RecommendEvent } from '../../shared/protocol.js'
+import { loadFixture, startFakeTmdb, type FakeTmdb } from './fakes/tmdb.js'
+import { startFakeLlm, type FakeLlm } from './fakes/llm.js'
+
+export interface Harness {
+  app: Hono
+  tmdb: FakeTmdb
+  llm: FakeLlm
+  close(): Promise<void>
+}
+
+// Modules read their config at import time, so the fakes are started and the
+// env pointed at them before the app is imported. Each test file runs in its
+// own process, so every suite gets a fresh app, database and cache.
+export async function startHarness(): Promise<Harness> {
+  const tmdb = await startFakeTmdb(loadFixture('tmdb'))
+  const llm = await startFakeLlm()
+
+  Object.assign(process.env, {
+    TMDB_API_KEY: 'fake',
+    TMDB_BASE_URL: tmdb.url,
+    // No caching, so overrides and failures take effect on the next request
+    TMDB_CACHE_MAX_ENTRIES: '0',
+    OPENROUTER_API_KEY: 'fake',
+    OPENROUTER_BASE_URL: llm.url,
+    LLM_FILTERS_MODEL: 'openrouter:fake-filters',
+    LLM_SELECTION_MODEL: 'openrouter:fake-selection',
+    LLM_WRITER_MODEL: 'openrouter:fake-writer',
+    DATABASE_FILE: ':memory:',
+    // app.request() has no socket, so every call comes from the same "unknown" client
+    RATE_LIMIT_ALLOWLIST: 'unknown',
+  })
+  const { app } = await import('../src/app.js')
+
+  return {
+    app,
+    tmdb,
+    llm,
+    async close() {
+      await Promise.all([tmdb.close(), llm.close()])
+    },
+  }
+}
+
+// A JSON request to the app; `body` is left out when undefined
+export function send(app: Hono, path: string, method: string, body?: unknown) {
+  return app.request(path, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+export async function readEvents(res: Response): Promise<RecommendEvent[]> {
+  const text = await res.text()
+  return text.split('\n').filter(Boolean).map(line => JSON.parse(line) as RecommendEvent)
+}
+
+export function eventsOf<T extends RecommendEvent['type']>(events: RecommendEvent[], type: T) {
+  return events.filter((e): e is Extract<RecommendEvent, { type: T }> => e.type === type)
+}
+
+// The selection prompt lists the pool as "<index>. <title> (<year>) ..." lines
+export function poolFromPrompt(prompt: string): string[] {
+  return prompt.split('\n').flatMap(line => {
+    const m = line.match(/^\d+\. (.+?) \(\d{0,4}\) \[/)
+    return m ? [m[1]] : []
+  })
+}
@@ -0,0 +1,19 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createEventDecoder, encodeEvent, type RecommendEvent } from '../../shared/protocol.js'
+
+describe('createEventDecoder', () => {
+  it('joins lines split across chunks and skips malformed ones', () => {
+    const events: RecommendEvent[] = []
+    const push = createEventDecoder(event => events.push(event))
+    const text = encodeEvent({ type: 'phase', phase: 'searching' }) + '{not json\n' + encodeEvent({ type: 'done' })
+    push(text.slice(0, 10))
+    push(text.slice(10))
+    assert.deepEqual(events, [{ type: 'phase', phase: 'searching' }, { type: 'done' }])
+  })
+
+  it('lets errors from the event handler through', () => {
+    const push = createEventDecoder(() => { throw new Error('handler failed') })
+    assert.throws(() => push(encodeEvent({ type: 'done' })), /handler failed/)
+  })
+})
@@ -0,0 +1,45 @@
+import { after, afterEach, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ApiError, Provider } from '../../shared/contract.js'
+import { startHarness, type Harness } from './helpers.js'
+
+describe('GET /api/providers', () => {
+  let h: Harness
+  before(async () => { h = await startHarness() })
+  afterEach(() => h.tmdb.reset())
+  after(() => h.close())
+
+  it('merges movie and tv providers, deduped and sorted by display priority', async () => {
+    const res = await h.app.request('/api/providers?region=US')
+    assert.equal(res.status, 200)
+    const providers = await res.json() as Provider[]
+    assert.deepEqual(providers.map(p => p.provider_name), [
+      'Netflix', 'Disney Plus', 'Amazon Prime Video', 'Hulu', 'Apple TV+',
+    ])
+    assert.ok(h.tmdb.requests.every(u => u.searchParams.get('watch_region') === 'US'))
+  })
+
+  it('rejects a malformed region before calling TMDB', async () => {
+    const res = await h.app.request('/api/providers?region=usa')
+    assert.equal(res.status, 400)
+    const body = await res.json() as ApiError
+    assert.equal(body.error, 'Invalid region')
+    assert.equal(h.tmdb.requests.length, 0)
+  })
+
+  it('still answers when one of the two lists fails', async () => {
+    h.tmdb.fail('/watch/providers/tv')
+    const res = await h.app.request('/api/providers?region=US')
+    assert.equal(res.status, 200)
+    const providers = await res.json() as Provider[]
+    assert.deepEqual(providers.map(p => p.provider_id), [8, 337, 9])
+  })
+
+  it('returns 502 when both lists fail', async () => {
+    h.tmdb.fail('/watch/providers/movie')
+    h.tmdb.fail('/watch/providers/tv', {}, 503)
+    const res = await h.app.request('/api/providers?region=US')
+    assert.equal(res.status, 502)
+    assert.equal((await res.json() as ApiError).error, 'Could not load providers')
+  })
+})
@@ -0,0 +1,105 @@
+import { before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Hono } from 'hono'
+
+// The limiter reads its config at import time: 10 tokens, one regained per second,
+// 3 for room polling, two trusted proxies in front
+Object.assign(process.env, {
+  RATE_LIMIT_CAPACITY: '10',
+  RATE_LIMIT_REFILL_PER_MIN: '60',
+  RATE_LIMIT_POLL_CAPACITY: '3',
+  TRUST_PROXY_HOPS: '2',
+  DATABASE_FILE: ':memory:',
+})
+const { createMemoryStore, rateLimit, routeCost } = await import('../src/rateLimit.js')
+
+describe('rate limiting', () => {
+  it('prices routes by how much work they cause', () => {
+    assert.equal(routeCost('GET', '/api/health').cost, 0)
+    assert.deepEqual(routeCost('GET', '/api/rooms/ABCDE'), { cost: 1, bucket: 'poll' })
+    assert.deepEqual(routeCost('POST', '/api/recommend'), { cost: 5, bucket: 'main' })
+    assert.equal(routeCost('POST', '/api/recommend/pick').cost, 2)
+    assert.equal(routeCost('GET', '/api/og/preferences.png').cost, 3)
+    assert.deepEqual(routeCost('GET', '/api/providers'), { cost: 1, bucket: 'main' })
+  })
+
+  it('refills the bucket continuously up to its capacity', async () => {
+    const store = createMemoryStore()
+    for (let i = 0; i < 10; i++) assert.ok((await store.take('a', 1, 0)).allowed)
+
+    let result = await store.take('a', 1, 0)
+    assert.deepEqual(result, { allowed: false, remaining: 0, retryAfterMs: 1000, resetMs: 10_000 })
+    // Half a second buys half a token: not enough yet
+    assert.equal((await store.take('a', 1, 500)).allowed, false)
+    result = await store.take('a', 1, 1000)
+    assert.equal(result.allowed, true)
+    assert.equal(result.remaining, 0)
+
+    // 3.5 tokens short of a 5-token request
+    result = await store.take('a', 5, 2500)
+    assert.equal(result.allowed, false)
+    assert.equal(result.retryAfterMs, 3500)
+
+    // A long pause refills the bucket, but never past its capacity
+    result = await store.take('a', 1, 60 * 60_000)
+    assert.equal(result.remaining, 9)
+    assert.equal(result.resetMs, 1000)
+  })
+
+  describe('middleware', () => {
+    let app: Hono
+    before(() => {
+      app = new Hono()
+      app.use('/api/*', rateLimit(createMemoryStore()))
+      app.post('/api/recommend', c => c.json({ ok: true }))
+      app.get('/api/health', c => c.json({ ok: true }))
+      app.get('/api/rooms/:code', c => c.json({ ok: true }))
+    })
+
+    const recommend = (forwardedFor: string) =>
+      app.request('/api/recommend', { method: 'POST', headers: { 'X-Forwarded-For': forwardedFor } })
+
+    it('answers 429 with the seconds until the request would fit', async () => {
+      const chain = '203.0.113.1, 10.0.0.1'
+      assert.equal((await recommend(chain)).status, 200)
+      const second = await recommend(chain)
+      assert.equal(second.status, 200)
+      assert.equal(second.headers.get('RateLimit-Remaining'), '0')
+
+      const denied = await recommend(chain)
+      assert.equal(denied.status, 429)
+      assert.equal(denied.headers.get('Retry-After'), '5')
+      assert.equal(denied.headers.get('RateLimit-Policy'), '10;w=10')
+
+      // Free routes skip the limiter
+      assert.equal((await app.request('/api/health', { headers: { 'X-Forwarded-For': chain } })).status, 200)
+    })
+
+    it('takes the client from the entry the trusted proxies appended', async () => {
+      for (let i = 0; i < 2; i++) await recommend('198.51.100.7, 10.0.0.1')
+      // Whatever the client prepends itself doesn't give it a new bucket
+      assert.equal((await recommend('1.2.3.4, 198.51.100.7, 10.0.0.1')).status, 429)
+      // Another client behind the same proxies has a bucket of its own
+      assert.equal((await recommend('198.51.100.8, 10.0.0.1')).status, 200)
+    })
+
+    it('limits room polling in a bucket of its own', async () => {
+      const chain = '203.0.113.50, 10.0.0.1'
+      const poll = () => app.request('/api/rooms/ABCDE', { headers: { 'X-Forwarded-For': chain } })
+      for (let i = 0; i < 2; i++) await recommend(chain)
+      assert.equal((await recommend(chain)).status, 429)
+
+      // An empty main bucket doesn't stop polling, but guessing codes runs dry too
+      for (let i = 0; i < 3; i++) assert.equal((await poll()).status, 200)
+      const denied = await poll()
+      assert.equal(denied.status, 429)
+      assert.equal(denied.headers.get('RateLimit-Limit'), '3')
+    })
+
+    it('falls back to the socket address when the chain is shorter than the trusted hops', async () => {
+      // Both single-entry chains are unverifiable, so they share the socket's bucket
+      for (let i = 0; i < 2; i++) await recommend('192.0.2.1')
+      assert.equal((await recommend('192.0.2.2')).status, 429)
+    })
+  })
+})
@@ -0,0 +1,672 @@
+import { after, afterEach, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ApiError, PickRequest, PickResponse, RecommendRequest } from '../../shared/contract.js'
+import { PROTOCOL_VERSION } from '../../shared/protocol.js'
+import { DEFAULT_SCRIPTS, promptText } from './fakes/llm.js'
+import { eventsOf, poolFromPrompt, readEvents, send, startHarness, type Harness } from './helpers.js'
+
+// Fixture discover pages cover movies 101–170 with overlaps; the searches for
+// "quiet heist" and "Heat" return 201 (not in discover), 110, 140 and 150.
+// Liking 101 seeds 150, 160, 170 and 999 (not in discover); liking 102 seeds 170.
+const DISCOVER_IDS = Array.from({ length: 70 }, (_, i) => 101 + i)
+
+describe('POST /api/recommend', () => {
+  let h: Harness
+  before(async () => { h = await startHarness() })
+  afterEach(() => {
+    h.tmdb.reset()
+    h.llm.reset()
+  })
+  after(() => h.close())
+
+  function recommend(body: RecommendRequest) {
+    return send(h.app, '/api/recommend', 'POST', body)
+  }
+
+  function selectionPool(): string[] {
+    const req = h.llm.requests.find(r => r.model === 'fake-selection')
+    assert.ok(req, 'selection model was not called')
+    return poolFromPrompt(promptText(req))
+  }
+
+  function withDescription() {
+    h.llm.script('fake-filters', () => ({ searchQueries: ['quiet heist'], similarTitles: ['Heat'] }))
+    return recommend({ country: 'US', mediaType: 'movie', description: 'a slow, clever heist' })
+  }
+
+  it('streams the full event sequence and saves a share', async () => {
+    const res = await recommend({ country: 'US', mediaType: 'movie', genres: ['Crime'] })
+    assert.equal(res.status, 200)
+    assert.match(res.headers.get('content-type') ?? '', /application\/x-ndjson/)
+
+    const events = await readEvents(res)
+    assert.deepEqual(events[0], { type: 'start', version: PROTOCOL_VERSION })
+    assert.deepEqual(eventsOf(events, 'phase').map(e => e.phase), ['searching', 'found', 'selecting', 'writing'])
+
+    const [{ picks }] = eventsOf(events, 'picks')
+    const pool = selectionPool()
+    assert.deepEqual(picks.map(p => p.title), pool.slice(0, 3))
+    assert.deepEqual(picks.map(p => p.vibe), ['Fake Favourite', 'Fake Classic', 'Fake Sleeper Hit'])
+
+    const deltas = eventsOf(events, 'delta')
+    for (const index of [0, 1, 2]) {
+      const text = deltas.filter(d => d.index === index).map(d => d.text).join('').trim()
+      assert.equal(text, `Write-up number ${index + 1}, warm and specific.`)
+    }
+
+    const done = events.at(-1)
+    assert.equal(done?.type, 'done')
+    const share = await h.app.request(`/api/share/${(done as { shareId: string }).shareId}`)
+    assert.equal(share.status, 200)
+  })
+
+  it('maps genres and region onto every discover call', async () => {
+    await readEvents(await recommend({ country: 'US', mediaType: 'movie', genres: ['Crime', 'Drama'], providerIds: [8, 9] }))
+    const discover = h.tmdb.requests.filter(u => u.pathname === '/discover/movie')
+    assert.equal(discover.length, 6)
+    for (const url of discover) {
+      assert.equal(url.searchParams.get('with_genres'), '80,18')
+      assert.equal(url.searchParams.get('with_watch_providers'), '8|9')
+      assert.equal(url.searchParams.get('watch_region'), 'US')
+    }
+  })
+
+  it('resolves localized and English genre names per media type', async () => {
+    h.tmdb.override({ path: '/genre/movie/list', query: { language: 'de-DE' }, body: { genres: [{ id: 80, name: 'Krimi' }] } })
+    await readEvents(await recommend({ country: 'DE', locale: 'de-DE', mediaType: 'movie', genres: ['Krimi', 'Drama'] }))
+    const discover = h.tmdb.requests.filter(u => u.pathname === '/discover/movie')
+    for (const url of discover) assert.equal(url.searchParams.get('with_genres'), '80,18')
+  })
+
+  it('skips genres a media type does not have when blending', async () => {
+    await readEvents(await recommend({ country: 'US', mediaType: 'either', genres: ['History'] }))
+    const movie = h.tmdb.requests.filter(u => u.pathname === '/discover/movie')
+    const tv = h.tmdb.requests.filter(u => u.pathname === '/discover/tv')
+    assert.ok(movie.every(u => u.searchParams.get('with_genres') === '36'))
+    assert.ok(tv.length > 0 && tv.every(u => !u.searchParams.has('with_genres')))
+  })
+
+  it('searches without genres when the genre list fails', async () => {
+    h.tmdb.fail('/genre/movie/list')
+    const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie', genres: ['Crime'] }))
+    assert.equal(events.at(-1)?.type, 'done')
+    const discover = h.tmdb.requests.filter(u => u.pathname === '/discover/movie')
+    assert.ok(discover.length > 0 && discover.every(u => !u.searchParams.has('with_genres')))
+  })
+
+  it('maps hard filters onto movie discover params', async () => {
+    await readEvents(await recommend({
+      country: 'US',
+      mediaType: 'movie',
+      filters: { yearFrom: 1990, yearTo: 1999, runtimeMax: 120, languages: ['fr', 'ja'], minRating: 7, minVotes: 500 },
+    }))
+    const discover = h.tmdb.requests.filter(u => u.pathname === '/discover/movie')
+    assert.equal(discover.length, 6)
+    for (const url of discover) {
+      assert.equal(url.searchParams.get('primary_release_date.gte'), '1990-01-01')
+      // The recent-releases feed's cap of today gives way to the filter
+      assert.equal(url.searchParams.get('primary_release_date.lte'), '1999-12-31')
+      assert.equal(url.searchParams.get('with_runtime.gte'), null)
+      assert.equal(url.searchParams.get('with_runtime.lte'), '120')
+      assert.equal(url.searchParams.get('with_original_language'), 'fr|ja')
+      assert.equal(url.searchParams.get('vote_average.gte'), '7')
+      // Above the top-rated floor of 150, so every page uses it
+      assert.equal(url.searchParams.get('vote_count.gte'), '500')
+    }
+  })
+
+  it('uses first_air_date for tv and keeps the default thresholds', async () => {
+    await readEvents(await recommend({ country: 'US', mediaType: 'tv', filters: { yearFrom: 2010, runtimeMin: 20 } }))
+    const discover = h.tmdb.requests.filter(u => u.pathname === '/discover/tv')
+    // Only ten shows, so the one feed with pages left is read once more
+    assert.equal(discover.length, 7)
+    for (const url of discover) {
+      assert.equal(url.searchParams.get('first_air_date.gte'), '2010-01-01')
+      assert.equal(url.searchParams.get('primary_release_date.gte'), null)
+      assert.equal(url.searchParams.get('with_runtime.gte'), '20')
+      assert.equal(url.searchParams.get('vote_average.gte'), '5.5')
+      const topRated = url.searchParams.get('sort_by') === 'vote_average.desc'
+      assert.equal(url.searchParams.get('vote_count.gte'), topRated ? '150' : '40')
+    }
+  })
+
+  it('localizes TMDB data and the model output for the requested locale', async () => {
+    h.llm.script('fake-filters', () => ({ searchQueries: ['stiller raub'], similarTitles: [] }))
+    await readEvents(await recommend({ country: 'DE', locale: 'de-DE', mediaType: 'movie', description: 'ein leiser Raubzug' }))
+    assert.ok(h.tmdb.requests.some(u => u.pathname.startsWith('/search/')))
+    // Watch providers carry no text, so the availability check isn't localized
+    for (const url of h.tmdb.requests.filter(u => !u.pathname.endsWith('/watch/providers'))) {
+      assert.equal(url.searchParams.get('language'), 'de-DE')
+    }
+
+    const selection = h.llm.requests.find(r => r.model === 'fake-selection')!
+    assert.match(promptText(selection), /vibe labels in German \(Germany\)/)
+    const writer = h.llm.requests.find(r => r.model === 'fake-writer')!
+    assert.match(promptText(writer), /Write in German \(Germany\)/)
+  })
+
+  it('asks TMDB for English when no locale is given', async () => {
+    await readEvents(await recommend({ country: 'US', mediaType: 'movie' }))
+    for (const url of h.tmdb.requests) assert.equal(url.searchParams.get('language'), 'en-US')
+  })
+
+  it('rejects inverted filter ranges', async () => {
+    const res = await recommend({ country: 'US', mediaType: 'movie', filters: { yearFrom: 2000, yearTo: 1990, languages: ['French'] } })
+    assert.equal(res.status, 400)
+    const { fields } = await res.json() as ApiError
+    assert.ok(fields?.['filters.yearTo'])
+    assert.ok(fields?.['filters.languages.0'])
+  })
+
+  it('blends movies and tv for "either", keeping same-id titles apart', async () => {
+    h.tmdb.override(
+      { path: '/discover/movie', body: { results: [101, 102].map(id => ({ id, title: `Movie ${id}` })) } },
+      { path: '/discover/tv', body: { results: [101, 301, 302].map(id => ({ id, name: `Show ${id}` })) } },
+    )
+    h.llm.script('fake-selection', (req) => {
+      const lines = promptText(req).split('\n')
+      const first = (kind: string) => Number(lines.find(l => l.includes(`[${kind}]`))!.split('.')[0])
+      return { picks: [{ index: first('film'), vibe: 'Film' }, { index: first('series'), vibe: 'Series' }, { index: 0, vibe: 'Any' }] }
+    })
+    const events = await readEvents(await recommend({ country: 'US', mediaType: 'either', filters: { yearFrom: 2000 } }))
+
+    // The overrides never run dry, so both types page up to the budget
+    assert.equal(h.tmdb.requests.filter(u => u.pathname === '/discover/movie').length, 12)
+    const tv = h.tmdb.requests.filter(u => u.pathname === '/discover/tv')
+    assert.equal(tv.length, 12)
+    assert.ok(tv.every(u => u.searchParams.get('first_air_date.gte') === '2000-01-01'))
+
+    const found = eventsOf(events, 'phase').find(e => e.phase === 'found')
+    // Show 101 is not a duplicate of Movie 101
+    assert.equal(found && 'count' in found ? found.count : null, 5)
+    assert.deepEqual(selectionPool().sort(), ['Movie 101', 'Movie 102', 'Show 101', 'Show 301', 'Show 302'])
+    assert.match(promptText(h.llm.requests.find(r => r.model === 'fake-selection')!), /User wants: a movie or TV show/)
+
+    const [{ picks }] = eventsOf(events, 'picks')
+    assert.equal(picks.find(p => p.vibe === 'Film')?.mediaType, 'movie')
+    assert.equal(picks.find(p => p.vibe === 'Series')?.mediaType, 'tv')
+  })
+
+  it('dedupes the pool by id, reports its size and cuts the prompt to 30', async () => {
+    const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie' }))
+    const found = eventsOf(events, 'phase').find(e => e.phase === 'found')
+    assert.equal(found && 'count' in found ? found.count : null, DISCOVER_IDS.length)
+
+    const pool = selectionPool()
+    assert.equal(pool.length, 30)
+    assert.equal(new Set(pool).size, 30)
+    const discoverTitles = new Set(DISCOVER_IDS.map(id => `Movie ${id}`))
+    assert.ok(pool.every(t => discoverTitles.has(t)))
+  })
+
+  it('puts region-validated description results first and drops the rest', async () => {
+    await readEvents(await withDescription())
+    const pool = selectionPool()
+    // Search order is queries then similar titles; 110 appears in both
+    assert.deepEqual(pool.slice(0, 3), ['Movie 110', 'Movie 140', 'Movie 150'])
+    assert.ok(!pool.includes('Movie 201'), 'search result missing from discover must not be used')
+    assert.equal(pool.filter(t => t === 'Movie 110').length, 1)
+  })
+
+  it('runs keyword and genre queries for mood and style chips and puts their results first', async () => {
+    h.tmdb.override(
+      { path: '/search/keyword', query: { query: 'stop motion' }, body: { results: [{ id: 1001, name: 'stop-motion puppet' }, { id: 1002, name: 'Stop Motion' }] } },
+      { path: '/discover/movie', query: { with_keywords: '1002' }, body: { results: [{ id: 180, title: 'Movie 180' }] } },
+      { path: '/discover/movie', query: { with_genres: '35' }, body: { results: [{ id: 190, title: 'Movie 190' }] } },
+    )
+    // "Funny & light" has a genre hint; its keyword is unknown here and dropped
+    await readEvents(await recommend({ country: 'US', mediaType: 'movie', moods: ['Funny & light'], styles: ['Stop motion', 'Live-action'] }))
+    assert.deepEqual(selectionPool().slice(0, 2), ['Movie 190', 'Movie 180'])
+
+    const tagged = h.tmdb.requests.filter(u => u.pathname === '/discover/movie' && (u.searchParams.has('with_keywords') || u.searchParams.has('with_genres')))
+    assert.equal(tagged.length, 2)
+    for (const url of tagged) assert.equal(url.searchParams.get('watch_region'), 'US')
+  })
+
+  describe('local ranking', () => {
+    const pool = (entries: [id: number, rating: number, overview: string, genres?: number[]][]) =>
+      h.tmdb.override({
+        path: '/discover/movie',
+        body: {
+          results: entries.map(([id, vote_average, overview, genre_ids]) => ({ id, title: `Movie ${id}`, vote_average, overview, genre_ids })),
+          total_pages: 1,
+        },
+      })
+
+    it('ranks the tail by relevance to the description, then by rating', async () => {
+      pool([
+        [101, 9, 'A quiet family drama.'],
+        [102, 5, 'A slow and clever heist in Lyon.'],
+        [103, 7, 'A space opera.'],
+      ])
+      await readEvents(await recommend({ country: 'US', mediaType: 'movie', description: 'a slow, clever heist' }))
+      assert.deepEqual(selectionPool(), ['Movie 102', 'Movie 101', 'Movie 103'])
+    })
+
+    it('matches liked-title overviews and genre names', async () => {
+      pool([
+        [101, 9, 'A quiet family drama.'],
+        [102, 5, 'Safecrackers plan one last job.'],
+        [103, 5, 'Two detectives.', [80]],
+      ])
+      h.tmdb.override({ path: '/movie/150', body: { id: 150, overview: 'Safecrackers and a casino.' } })
+      await readEvents(await recommend({
+        country: 'US',
+        mediaType: 'movie',
+        description: 'crime',
+        liked: [{ id: 150, mediaType: 'movie', title: 'Movie 150' }],
+      }))
+      assert.deepEqual(selectionPool(), ['Movie 103', 'Movie 102', 'Movie 101'])
+    })
+
+    it('caps priority results so ranked titles still reach the prompt', async () => {
+      pool([
+        [101, 5, 'A quiet family drama.'],
+        [102, 5, 'A slow and clever heist in Lyon.'],
+      ])
+      const tagged = Array.from({ length: 25 }, (_, i) => ({ id: 301 + i, title: `Movie ${301 + i}`, overview: 'A space opera.' }))
+      h.tmdb.override(
+        { path: '/search/keyword', query: { query: 'stop motion' }, body: { results: [{ id: 1002, name: 'Stop Motion' }] } },
+        { path: '/discover/movie', query: { with_keywords: '1002' }, body: { results: tagged } },
+      )
+      await readEvents(await recommend({ country: 'US', mediaType: 'movie', styles: ['Stop motion'], description: 'a slow, clever heist' }))
+      const prompt = selectionPool()
+      assert.deepEqual(prompt.slice(0, 15), tagged.slice(0, 15).map(t => t.title))
+      assert.equal(prompt[15], 'Movie 102')
+    })
+  })
+
+  it('filters out liked and disliked titles regardless of case', async () => {
+    const liked = DISCOVER_IDS.slice(0, 40).map(id => `movie ${id}`)
+    const events = await readEvents(await recommend({
+      country: 'US', mediaType: 'movie', liked, disliked: ['MOVIE 141'],
+    }))
+    const pool = selectionPool()
+    const excluded = new Set([...liked, 'movie 141'])
+    assert.ok(pool.every(t => !excluded.has(t.toLowerCase())))
+    // 70 discover titles minus 41 seen leaves 29 — fewer than the 30-title cap
+    assert.equal(pool.length, 29)
+    assert.equal(events.at(-1)?.type, 'done')
+  })
+
+  it('excludes feedback by id and labels it with the year in the prompt', async () => {
+    await readEvents(await recommend({
+      country: 'US',
+      mediaType: 'movie',
+      // Renamed in TMDB since it was liked — still excluded by id
+      liked: [{ id: 103, mediaType: 'movie', title: 'Old Name', year: '1993' }],
+      // Same title as Movie 104 but a different film, so 104 stays in the pool
+      disliked: [{ id: 999, mediaType: 'movie', title: 'Movie 104', year: '1979' }],
+    }))
+    const req = h.llm.requests.find(r => r.model === 'fake-selection')!
+    const prompt = promptText(req)
+    const pool = poolFromPrompt(prompt)
+    assert.equal(pool.length, 30)
+    assert.ok(!pool.includes('Movie 103'))
+    assert.match(prompt, /ENJOYED — find more like these: Old Name \(1993\)/)
+    assert.match(prompt, /did NOT enjoy — avoid this tone\/style: Movie 104 \(1979\)/)
+
+    // 104 is only visible when the pool isn't cut, so check against a smaller one
+    h.llm.reset()
+    h.tmdb.override({ path: '/discover/movie', body: { results: [103, 104, 105].map(id => ({ id, title: `Movie ${id}` })) } })
+    await readEvents(await recommend({
+      country: 'US',
+      mediaType: 'movie',
+      liked: [{ id: 103, mediaType: 'movie', title: 'Old Name' }],
+      disliked: [{ id: 999, mediaType: 'movie', title: 'Movie 104' }],
+    }))
+    assert.deepEqual(selectionPool().sort(), ['Movie 104', 'Movie 105'])
+  })
+
+  it('excludes stored profile feedback by id', async () => {
+    const profile = await (await send(h.app, '/api/profiles', 'POST', {})).json() as { id: string }
+    const feedback = (body: object) => send(h.app, `/api/profiles/${profile.id}/feedback`, 'POST', body)
+    await feedback({ title: 'Movie 101', tmdbId: 101, mediaType: 'movie', year: '1991', verdict: 'like' })
+    await feedback({ title: 'Movie 102', tmdbId: 102, mediaType: 'movie', year: '1992', verdict: 'dislike' })
+    await feedback({ title: 'Movie 102', tmdbId: 102, mediaType: 'movie', year: '1992', verdict: 'clear' })
+    // Same id as a movie in the pool, but a TV show — must not exclude Movie 103
+    await feedback({ title: 'Show 103', tmdbId: 103, mediaType: 'tv', year: '2001', verdict: 'dislike' })
+
+    h.tmdb.override({ path: '/discover/movie', body: { results: [101, 102, 103].map(id => ({ id, title: `Movie ${id}` })) } })
+    await readEvents(await recommend({ country: 'US', mediaType: 'movie', profileId: profile.id }))
+    const prompt = promptText(h.llm.requests.find(r => r.model === 'fake-selection')!)
+    assert.deepEqual(poolFromPrompt(prompt).sort(), ['Movie 102', 'Movie 103'])
+    assert.match(prompt, /Movie 101 \(1991\)/)
+    assert.match(prompt, /Show 103 \(2001, TV\)/)
+  })
+
+  it('seeds the pool from liked titles, ranked by how many likes suggest them', async () => {
+    await readEvents(await recommend({
+      country: 'US',
+      mediaType: 'movie',
+      liked: [
+        { id: 101, mediaType: 'movie', title: 'Movie 101' },
+        { id: 102, mediaType: 'movie', title: 'Movie 102' },
+        // Neither a TV like nor a bare title can seed a movie pool
+        { id: 103, mediaType: 'tv', title: 'Show 103' },
+        'Movie 104',
+      ],
+    }))
+    assert.deepEqual(selectionPool().slice(0, 3), ['Movie 160', 'Movie 170', 'Movie 150'])
+    assert.ok(!selectionPool().includes('Movie 999'), 'seed missing from discover must not be used')
+    const seeded = h.tmdb.requests.map(u => u.pathname).filter(p => /^\/(movie|tv)\/\d+\/(recommendations|similar)$/.test(p)).sort()
+    assert.deepEqual(seeded, [
+      '/movie/101/recommendations', '/movie/101/similar',
+      '/movie/102/recommendations', '/movie/102/similar',
+    ])
+  })
+
+  it('leads the pool with a "more like this" anchor\'s suggestions and leaves the anchor out', async () => {
+    await readEvents(await recommend({
+      country: 'US',
+      mediaType: 'movie',
+      moreLike: { id: 101, mediaType: 'movie', title: 'Movie 101', year: '1991' },
+    }))
+    const pool = selectionPool()
+    // Unlike liked-title seeds, the anchor's suggestions skip the region check
+    assert.deepEqual(pool.slice(0, 4), ['Movie 150', 'Movie 160', 'Movie 999', 'Movie 170'])
+    assert.ok(!pool.includes('Movie 101'))
+    const prompt = promptText(h.llm.requests.find(r => r.model === 'fake-selection')!)
+    assert.match(prompt, /More like: Movie 101 \(1991\)/)
+  })
+
+  it('puts description results ahead of liked-title seeds and ignores failed seeds', async () => {
+    h.tmdb.fail('/movie/101/recommendations')
+    h.llm.script('fake-filters', () => ({ searchQueries: ['quiet heist'], similarTitles: ['Heat'] }))
+    await readEvents(await recommend({
+      country: 'US',
+      mediaType: 'movie',
+      description: 'a slow, clever heist',
+      liked: [{ id: 101, mediaType: 'movie', title: 'Movie 101' }],
+    }))
+    assert.deepEqual(selectionPool().slice(0, 5), ['Movie 110', 'Movie 140', 'Movie 150', 'Movie 160', 'Movie 170'])
+  })
+
+  it('keeps going when some discover pages fail', async () => {
+    h.tmdb.fail('/discover/movie', { sort_by: 'popularity.desc', page: '1' })
+    h.tmdb.fail('/discover/movie', { sort_by: 'vote_average.desc' }, 503)
+    const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie' }))
+
+    const found = eventsOf(events, 'phase').find(e => e.phase === 'found')
+    // Only popularity pages 2 and 3 remain: movies 116–150
+    assert.equal(found && 'count' in found ? found.count : null, 35)
+    const pool = selectionPool()
+    assert.ok(pool.every(t => Number(t.slice(6)) >= 116 && Number(t.slice(6)) <= 150))
+    assert.equal(events.at(-1)?.type, 'done')
+  })
+
+  it('falls back to discover results when filter extraction fails', async () => {
+    h.llm.script('fake-filters', () => { throw new Error('filters down') })
+    const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie', description: 'a heist' }))
+    assert.ok(!h.tmdb.requests.some(u => u.pathname.startsWith('/search')))
+    assert.equal(selectionPool().length, 30)
+    assert.equal(events.at(-1)?.type, 'done')
+  })
+
+  it('uses the searches that succeed when others fail', async () => {
+    h.tmdb.fail('/search/movie', { query: 'quiet heist' })
+    await readEvents(await withDescription())
+    assert.deepEqual(selectionPool().slice(0, 2), ['Movie 150', 'Movie 110'])
+  })
+
+  it('trusts unvalidated search results only when every discover call failed', async () => {
+    h.tmdb.fail('/discover/movie')
+    const events = await readEvents(await withDescription())
+    assert.deepEqual(selectionPool(), ['Movie 201', 'Movie 110', 'Movie 140', 'Movie 150'])
+    assert.equal(events.at(-1)?.type, 'done')
+  })
+
+  it('drops duplicate selection indices', async () => {
+    h.llm.script('fake-selection', () => ({
+      picks: [
+        { index: 2, vibe: 'A' },
+        { index: 2, vibe: 'A again' },
+        { index: 0, vibe: 'B' },
+      ],
+    }))
+    h.tmdb.override({ path: '/discover/movie', body: { results: [101, 102, 103, 104, 105, 106].map(id => ({ id, title: `Movie ${id}` })), total_pages: 1 } })
+    const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie', liked: ['Movie 101', 'Movie 102', 'Movie 103'] }))
+    const [{ picks }] = eventsOf(events, 'picks')
+    assert.deepEqual(picks.map(p => p.vibe), ['A', 'B'])
+  })
+
+  it('bounds the selection schema by the pool size', async () => {
+    // Two fresh titles: indices 0–1, and both of them are wanted
+    h.tmdb.override({ path: '/discover/movie', body: { results: [101, 102, 103, 104].map(id => ({ id, title: `Movie ${id}` })), total_pages: 1 } })
+    h.llm.script('fake-selection', () => ({ picks: [{ index: 1, vibe: 'A' }, { index: 0, vibe: 'B' }] }))
+    const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie', liked: ['Movie 101', 'Movie 102'] }))
+    assert.deepEqual(eventsOf(events, 'picks')[0].picks.map(p => p.title).sort(), ['Movie 103', 'Movie 104'])
+
+    const request = JSON.stringify(h.llm.requests.find(r => r.model === 'fake-selection'))
+    assert.match(request, /"maximum":1\b/)
+    assert.match(request, /"minItems":2\b/)
+    assert.match(promptText(h.llm.requests.find(r => r.model === 'fake-selection')!), /Pick 2 titles/)
+  })
+
+  it('pages discover further until enough unseen titles are found', async () => {
+    h.tmdb.override({
+      path: '/discover/movie',
+      query: { sort_by: 'vote_average.desc', page: '3' },
+      body: { results: [171, 172, 173].map(id => ({ id, title: `Movie ${id}` })), total_pages: 3 },
+    })
+    // 70 discover titles minus 45 seen leaves 25, short of the 30 wanted
+    const liked = DISCOVER_IDS.slice(0, 45).map(id => `Movie ${id}`)
+    const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie', liked }))
+    const found = eventsOf(events, 'phase').find(e => e.phase === 'found')
+    assert.equal(found && 'count' in found ? found.count : null, 28)
+    assert.ok(selectionPool().includes('Movie 172'))
+
+    // Popularity ran out at page 3 and the recent feed came back empty; top-rated
+    // got one more page and then hit its last
+    const extra = h.tmdb.requests.filter(u => u.pathname === '/discover/movie').slice(6)
+    assert.deepEqual(extra.map(u => `${u.searchParams.get('sort_by')} ${u.searchParams.get('page')}`), ['vote_average.desc 3'])
+  })
+
+  describe('streaming check', () => {
+    const streaming = (kind: 'flatrate' | 'free' | 'ads' | 'rent', ...services: [number, string][]) => ({
+      results: {
+        US: {
+          link: 'https://www.themoviedb.org/movie/watch?locale=US',
+          [kind]: services.map(([id, name], i) => ({ provider_id: id, provider_name: name, logo_path: `/${id}.png`, display_priority: i })),
+        },
+      },
+    })
+    const pool = (ids: number[]) =>
+      h.tmdb.override({ path: '/discover/movie', body: { results: ids.map(id => ({ id, title: `Movie ${id}` })) } })
+
+    it('replaces picks that are not on the chosen services and lists where the rest stream', async () => {
+      h.tmdb.override({
+        path: '/discover/movie',
+        body: { results: [101, 102, 103, 104].map(id => ({ id, title: `Movie ${id}`, genre_ids: [80, 18] })) },
+      })
+      for (const id of [101, 102, 104]) {
+        h.tmdb.override({ path: `/movie/${id}/watch/providers`, body: streaming('flatrate', [8, 'Netflix'], [15, 'Hulu']) })
+      }
+      h.tmdb.override({ path: '/movie/103/watch/providers', body: streaming('flatrate', [15, 'Hulu']) })
+      const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie', providerIds: [8] }))
+      const [{ picks }] = eventsOf(events, 'picks')
+      assert.deepEqual(picks.map(p => p.id).sort(), [101, 102, 104])
+      for (const pick of picks) {
+        assert.deepEqual(pick.providers?.map(p => p.provider_name), ['Netflix'])
+        assert.equal(pick.watchLink, 'https://www.themoviedb.org/movie/watch?locale=US')
+      }
+      // The replacement has no model-written vibe, so its genres stand in
+      assert.equal(picks.find(p => p.id === 104)?.vibe, 'Crime & Drama')
+      assert.equal(events.at(-1)?.type, 'done')
+    })
+
+    it('counts free and ad-supported services but not rentals when none are chosen', async () => {
+      pool([101, 102, 103])
+      h.tmdb.override({ path: '/movie/101/watch/providers', body: streaming('free', [73, 'Tubi TV']) })
+      h.tmdb.override({ path: '/movie/102/watch/providers', body: streaming('ads', [300, 'Pluto TV']) })
+      h.tmdb.override({ path: '/movie/103/watch/providers', body: streaming('rent', [2, 'Apple TV']) })
+      const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie' }))
+      const [{ picks }] = eventsOf(events, 'picks')
+      assert.deepEqual(picks.map(p => p.id).sort(), [101, 102])
+    })
+
+    it('keeps picks whose availability lookup fails', async () => {
+      pool([101, 102, 103])
+      h.tmdb.fail('/movie/101/watch/providers')
+      const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie', providerIds: [8] }))
+      const [{ picks }] = eventsOf(events, 'picks')
+      assert.equal(picks.length, 3)
+      assert.ok(picks.every(p => p.providers?.length === 0 && p.watchLink === null))
+    })
+
+    it('reports an error when nothing in the pool is streamable', async () => {
+      pool([101, 102])
+      for (const id of [101, 102]) {
+        h.tmdb.override({ path: `/movie/${id}/watch/providers`, body: streaming('flatrate', [15, 'Hulu']) })
+      }
+      const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie', providerIds: [8] }))
+      assert.equal(events.at(-1)?.type, 'error')
+      assert.equal(eventsOf(events, 'picks').length, 0)
+    })
+  })
+
+  describe('single picks', () => {
+    async function search(body: RecommendRequest = { country: 'US', mediaType: 'movie' }) {
+      const events = await readEvents(await recommend(body))
+      const [{ picks }] = eventsOf(events, 'picks')
+      const done = events.at(-1) as { type: 'done'; sessionId: string }
+      return { picks, sessionId: done.sessionId }
+    }
+
+    function pick(body: PickRequest) {
+      return send(h.app, '/api/recommend/pick', 'POST', body)
+    }
+
+    it('swaps one card for a fresh title from the same pool', async () => {
+      const { picks, sessionId } = await search()
+      const pool = selectionPool()
+      h.llm.reset()
+
+      const res = await pick({ sessionId, exclude: picks.map(({ id, mediaType }) => ({ id, mediaType })) })
+      assert.equal(res.status, 200)
+      const body = await res.json() as PickResponse
+      const candidates = selectionPool()
+      // The rest of the pool, in the same order, past the three cards on screen
+      assert.deepEqual(candidates.slice(0, 27), pool.slice(3))
+      assert.ok(picks.every(p => !candidates.includes(p.title)))
+      assert.equal(body.pick.title, candidates[0])
+      assert.equal(body.pick.vibe, 'Fake Favourite')
+      assert.equal(body.description, 'Write-up number 1, warm and specific.')
+    })
+
+    it('never offers the same replacement twice', async () => {
+      const { sessionId } = await search()
+      const first = await (await pick({ sessionId })).json() as PickResponse
+      const second = await (await pick({ sessionId })).json() as PickResponse
+      assert.notEqual(first.pick.id, second.pick.id)
+    })
+
+    it('never offers spares that failed the streaming check', async () => {
+      // 103 ranks first and 104 last; neither is on Netflix
+      h.tmdb.override({
+        path: '/discover/movie',
+        body: { results: [101, 102, 103, 104, 105, 106].map(id => ({ id, title: `Movie ${id}`, vote_average: { 103: 9, 104: 1 }[id] ?? 5 })) },
+      })
+      const netflix = { results: { US: { link: null, flatrate: [{ provider_id: 8, provider_name: 'Netflix', logo_path: '/8.png', display_priority: 0 }] } } }
+      for (const id of [101, 102, 105, 106]) h.tmdb.override({ path: `/movie/${id}/watch/providers`, body: netflix })
+      h.tmdb.override({ path: '/movie/103/watch/providers', body: { results: {} } })
+      h.tmdb.override({ path: '/movie/104/watch/providers', body: { results: {} } })
+
+      const { picks, sessionId } = await search({ country: 'US', mediaType: 'movie', providerIds: [8] })
+      h.llm.reset()
+      const res = await pick({ sessionId, exclude: picks.map(({ id, mediaType }) => ({ id, mediaType })) })
+      assert.equal(res.status, 200)
+      // The one spare that passed but wasn't needed is all that's left
+      const [spare] = [101, 102, 105, 106].filter(id => !picks.some(p => p.id === id))
+      assert.deepEqual(selectionPool(), [`Movie ${spare}`])
+    })
+
+    it('reports an exhausted pool', async () => {
+      h.tmdb.override({ path: '/discover/movie', body: { results: [101, 102, 103].map(id => ({ id, title: `Movie ${id}` })) } })
+      const { sessionId } = await search()
+      const res = await pick({ sessionId })
+      assert.equal(res.status, 409)
+    })
+
+    it('rejects an unknown session', async () => {
+      const res = await pick({ sessionId: 'AAAAAAAAAAAA' })
+      assert.equal(res.status, 404)
+      assert.equal((await res.json() as ApiError).error, 'This search has expired — run it again')
+    })
+  })
+
+  describe('fallbacks', () => {
+    it('picks from the local ranking with genre vibes when selection fails', async () => {
+      h.llm.script('fake-selection', () => { throw new Error('selection down') })
+      h.tmdb.override({
+        path: '/discover/movie',
+        body: {
+          results: [[101, 6], [102, 9], [103, 8], [104, 4]].map(([id, vote_average]) => ({ id, title: `Movie ${id}`, vote_average, genre_ids: [80, 18] })),
+          total_pages: 1,
+        },
+      })
+      const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie' }))
+      assert.deepEqual(eventsOf(events, 'fallback'), [{ type: 'fallback', stage: 'selection' }])
+      const [{ picks }] = eventsOf(events, 'picks')
+      assert.deepEqual(picks.map(p => p.id), [102, 103, 101])
+      assert.ok(picks.every(p => p.vibe === 'Crime & Drama'))
+      assert.equal(events.at(-1)?.type, 'done')
+    })
+
+    it('describes picks from their overviews when the writer hangs', async () => {
+      process.env.LLM_WRITER_TIMEOUT_MS = '200'
+      h.llm.script('fake-writer', () => new Promise(resolve => setTimeout(() => resolve('Too late.'), 1000)))
+      try {
+        const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie' }))
+        assert.deepEqual(eventsOf(events, 'fallback'), [{ type: 'fallback', stage: 'writing' }])
+        const [{ picks }] = eventsOf(events, 'picks')
+        for (const [index, pick] of picks.entries()) {
+          const text = eventsOf(events, 'delta').filter(d => d.index === index).map(d => d.text).join('')
+          assert.equal(text, `Overview of title ${pick.id}.`)
+        }
+        assert.equal(events.at(-1)?.type, 'done')
+      } finally {
+        delete process.env.LLM_WRITER_TIMEOUT_MS
+      }
+    })
+
+    it('ignores a timeout that is not a positive number', async () => {
+      process.env.LLM_SELECTION_TIMEOUT_MS = 'soon'
+      process.env.LLM_WRITER_TIMEOUT_MS = '0'
+      try {
+        const events = await readEvents(await recommend({ country: 'US', mediaType: 'movie' }))
+        assert.deepEqual(eventsOf(events, 'fallback'), [])
+        assert.equal(events.at(-1)?.type, 'done')
+      } finally {
+        delete process.env.LLM_SELECTION_TIMEOUT_MS
+        delete process.env.LLM_WRITER_TIMEOUT_MS
+      }
+    })
+  })
+
+  it('stops the search when the client goes away', async () => {
+    let selectionAsked!: () => void
+    const asked = new Promise<void>(resolve => { selectionAsked = resolve })
+    h.llm.script('fake-selection', (req) => {
+      selectionAsked()
+      return new Promise(resolve => setTimeout(() => resolve(DEFAULT_SCRIPTS['fake-selection'](req)), 300))
+    })
+    const res = await recommend({ country: 'US', mediaType: 'movie' })
+    await asked
+    await res.body!.cancel()
+    await new Promise(resolve => setTimeout(resolve, 500))
+
+    assert.ok(!h.llm.requests.some(r => r.model === 'fake-writer'))
+    assert.ok(!h.tmdb.requests.some(u => u.pathname.endsWith('/watch/providers')))
+  })
+
+  it('rejects an invalid request with field errors', async () => {
+    const res = await recommend({ country: 'usa', locale: 'german', mediaType: 'film' } as unknown as RecommendRequest)
+    assert.equal(res.status, 400)
+    const body = await res.json() as ApiError
+    assert.ok(body.fields?.country)
+    assert.ok(body.fields?.locale)
+    assert.ok(body.fields?.mediaType)
+    assert.equal(h.tmdb.requests.length, 0)
+  })
+})
@@ -0,0 +1,170 @@
+import { after, afterEach, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ApiError, Profile, RecommendRequest, Room, RoomPreferences, RoomSession } from '../../shared/contract.js'
+import { promptText } from './fakes/llm.js'
+import { eventsOf, poolFromPrompt, readEvents, send, startHarness, type Harness } from './helpers.js'
+
+describe('/api/rooms', () => {
+  let h: Harness
+  before(async () => { h = await startHarness() })
+  afterEach(() => {
+    h.tmdb.reset()
+    h.llm.reset()
+  })
+  after(() => h.close())
+
+  async function open(name = 'Ana'): Promise<RoomSession> {
+    const res = await send(h.app, '/api/rooms', 'POST', { name, country: 'US', mediaType: 'movie' })
+    assert.equal(res.status, 201)
+    return await res.json() as RoomSession
+  }
+
+  async function join(code: string, name: string): Promise<RoomSession> {
+    const res = await send(h.app, `/api/rooms/${code}/participants`, 'POST', { name })
+    assert.equal(res.status, 201)
+    return await res.json() as RoomSession
+  }
+
+  function submit(code: string, participantId: string, prefs: RoomPreferences) {
+    return send(h.app, `/api/rooms/${code}/participants/${participantId}`, 'PUT', prefs)
+  }
+
+  function vote(code: string, participantId: string, index: number | null) {
+    return send(h.app, `/api/rooms/${code}/participants/${participantId}/vote`, 'PUT', { index })
+  }
+
+  async function room(code: string, participantId?: string): Promise<Room> {
+    const res = await h.app.request(`/api/rooms/${code}${participantId ? `?participant=${participantId}` : ''}`)
+    assert.equal(res.status, 200)
+    return await res.json() as Room
+  }
+
+  function recommend(body: RecommendRequest) {
+    return send(h.app, '/api/recommend', 'POST', body)
+  }
+
+  it('lets people join, send preferences and see who is ready', async () => {
+    const host = await open()
+    assert.match(host.room.code, /^[A-HJ-NP-Z2-9]{5}$/)
+    assert.deepEqual(host.room.you, { name: 'Ana', isHost: true, ready: false, vote: null })
+
+    // Codes are typed in any case
+    const guest = await join(host.room.code.toLowerCase(), 'Ben')
+    assert.equal(guest.room.you?.isHost, false)
+
+    const res = await submit(host.room.code, guest.participantId, { genres: ['Comedy'], description: 'something light' })
+    assert.equal(res.status, 200)
+    const seen = await room(host.room.code)
+    assert.equal(seen.you, null)
+    assert.deepEqual(seen.participants, [
+      { name: 'Ana', isHost: true, ready: false },
+      { name: 'Ben', isHost: false, ready: true },
+    ])
+    assert.equal(seen.status, 'open')
+  })
+
+  it('validates codes, participants and input', async () => {
+    const host = await open()
+    assert.equal((await h.app.request('/api/rooms/nope!')).status, 400)
+    assert.equal((await h.app.request('/api/rooms/ZZZZZ')).status, 404)
+    assert.equal((await send(h.app, '/api/rooms/ZZZZZ/participants', 'POST', { name: 'Ben' })).status, 404)
+
+    const blank = await send(h.app, `/api/rooms/${host.room.code}/participants`, 'POST', { name: '  ' })
+    assert.equal(blank.status, 400)
+    assert.ok((await blank.json() as ApiError).fields?.name)
+
+    const stranger = 'x'.repeat(22)
+    assert.equal((await submit(host.room.code, stranger, {})).status, 404)
+    assert.equal((await vote(host.room.code, host.participantId, 0)).status, 409)
+  })
+
+  it('turns away joiners once the room is full', async () => {
+    const host = await open()
+    for (let i = 1; i < 8; i++) await join(host.room.code, `Guest ${i}`)
+    const res = await send(h.app, `/api/rooms/${host.room.code}/participants`, 'POST', { name: 'One too many' })
+    assert.equal(res.status, 409)
+  })
+
+  it('only lets the host start, once someone is ready', async () => {
+    const host = await open()
+    const guest = await join(host.room.code, 'Ben')
+    let res = await recommend({ room: { code: host.room.code, participantId: host.participantId } })
+    assert.equal(res.status, 409)
+    await submit(host.room.code, guest.participantId, { moods: ['Cosy'] })
+    res = await recommend({ room: { code: host.room.code, participantId: guest.participantId } })
+    assert.equal(res.status, 403)
+    res = await recommend({ room: { code: 'ZZZZZ', participantId: host.participantId } })
+    assert.equal(res.status, 404)
+    assert.equal(h.tmdb.requests.length, 0)
+  })
+
+  it('merges everyone into one search and tallies votes on the picks', async () => {
+    const profile = await (await send(h.app, '/api/profiles', 'POST', {})).json() as Profile
+    await send(h.app, `/api/profiles/${profile.id}/feedback`, 'POST', { title: 'Movie 103', tmdbId: 103, mediaType: 'movie', verdict: 'dislike' })
+
+    const host = await open()
+    const guest = await join(host.room.code, 'Ben')
+    const { code } = host.room
+    await submit(code, host.participantId, {
+      providerIds: [8],
+      genres: ['Comedy'],
+      moods: ['Cosy'],
+      description: 'nothing too long',
+      disliked: [{ id: 101, mediaType: 'movie', title: 'Movie 101' }],
+    })
+    await submit(code, guest.participantId, {
+      providerIds: [9, 8],
+      genres: ['comedy', 'Drama'],
+      description: 'maybe a classic',
+      profileId: profile.id,
+    })
+
+    h.tmdb.override({ path: '/discover/movie', body: { results: [101, 102, 103, 104, 105, 106].map(id => ({ id, title: `Movie ${id}` })) } })
+    const events = await readEvents(await recommend({ room: { code, participantId: host.participantId } }))
+    assert.equal(events.at(-1)?.type, 'done')
+
+    const discover = h.tmdb.requests.find(u => u.pathname === '/discover/movie')!
+    assert.equal(discover.searchParams.get('with_watch_providers'), '8|9')
+    assert.equal(discover.searchParams.get('with_genres'), '35,18')
+    const prompt = promptText(h.llm.requests.find(r => r.model === 'fake-selection')!)
+    assert.match(prompt, /Notes: "Ana: nothing too long\nBen: maybe a classic"/)
+    assert.match(prompt, /Mood: Cosy/)
+    // Session and stored dislikes of different people both count
+    assert.deepEqual(poolFromPrompt(prompt).sort(), ['Movie 102', 'Movie 104', 'Movie 105', 'Movie 106'])
+
+    const [{ picks }] = eventsOf(events, 'picks')
+    let seen = await room(code, guest.participantId)
+    assert.equal(seen.status, 'voting')
+    assert.deepEqual(seen.result?.picks.map(p => p.id), picks.map(p => p.id))
+
+    await vote(code, host.participantId, 1)
+    await vote(code, guest.participantId, 1)
+    seen = await room(code, guest.participantId)
+    assert.deepEqual(seen.votes[1], ['Ana', 'Ben'])
+    assert.equal(seen.you?.vote, 1)
+
+    // Changing and taking back a vote
+    await vote(code, guest.participantId, 0)
+    await vote(code, host.participantId, null)
+    seen = await room(code)
+    assert.deepEqual(seen.votes.map(v => v.length), [1, 0, 0])
+    assert.equal((await vote(code, host.participantId, 9)).status, 400)
+
+    // A new search replaces the picks and clears the votes
+    await readEvents(await recommend({ room: { code, participantId: host.participantId } }))
+    seen = await room(code)
+    assert.deepEqual(seen.votes.map(v => v.length), [0, 0, 0])
+  })
+
+  it('reopens the room when the search fails', async () => {
+    const host = await open()
+    await submit(host.room.code, host.participantId, { genres: ['Comedy'] })
+    // With discover down there is no pool to fall back on
+    h.tmdb.fail('/discover/movie')
+    const events = await readEvents(await recommend({ room: { code: host.room.code, participantId: host.participantId } }))
+    assert.equal(events.at(-1)?.type, 'error')
+    const seen = await room(host.room.code)
+    assert.equal(seen.status, 'open')
+    assert.equal(seen.result, null)
+  })
+})
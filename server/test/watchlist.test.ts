@@ -0,0 +1,134 @@
+import { after, afterEach, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ApiError, Profile, RecommendRequest, WatchlistInput, WatchlistItem } from '../../shared/contract.js'
+import { promptText } from './fakes/llm.js'
+import { poolFromPrompt, readEvents, send, startHarness, type Harness } from './helpers.js'
+
+const SAVED: WatchlistInput = { id: 101, mediaType: 'movie', title: 'Movie 101', year: '2001', posterPath: '/p101.jpg' }
+
+function providers(...list: [number, string][]) {
+  return {
+    results: {
+      US: {
+        link: 'https://www.themoviedb.org/movie/101/watch?locale=US',
+        flatrate: list.map(([id, name], i) => ({ provider_id: id, provider_name: name, logo_path: `/logo${id}.png`, display_priority: i })),
+      },
+    },
+  }
+}
+
+describe('/api/profiles/:id/watchlist', () => {
+  let h: Harness
+  before(async () => { h = await startHarness() })
+  afterEach(() => {
+    h.tmdb.reset()
+    h.llm.reset()
+  })
+  after(() => h.close())
+
+  async function createProfile(providerIds: number[] = []): Promise<string> {
+    const res = await send(h.app, '/api/profiles', 'POST', { country: 'US', providerIds })
+    return (await res.json() as Profile).id
+  }
+
+  async function list(profileId: string): Promise<WatchlistItem[]> {
+    const res = await h.app.request(`/api/profiles/${profileId}/watchlist`)
+    assert.equal(res.status, 200)
+    return (await res.json() as { items: WatchlistItem[] }).items
+  }
+
+  it('adds, lists, marks watched and removes titles', async () => {
+    const id = await createProfile()
+    const added = await send(h.app, `/api/profiles/${id}/watchlist`, 'POST', SAVED)
+    assert.equal(added.status, 201)
+    // Saving again is idempotent
+    assert.equal((await send(h.app, `/api/profiles/${id}/watchlist`, 'POST', SAVED)).status, 201)
+    assert.deepEqual((await list(id)).map(i => [i.id, i.watchedAt]), [[101, null]])
+
+    const patched = await send(h.app, `/api/profiles/${id}/watchlist/movie/101`, 'PATCH', { watched: true })
+    assert.equal(patched.status, 200)
+    assert.ok((await patched.json() as WatchlistItem).watchedAt)
+
+    assert.equal((await send(h.app, `/api/profiles/${id}/watchlist/movie/101`, 'DELETE')).status, 204)
+    assert.equal((await send(h.app, `/api/profiles/${id}/watchlist/movie/101`, 'DELETE')).status, 404)
+    assert.deepEqual(await list(id), [])
+  })
+
+  it('validates input and unknown profiles', async () => {
+    const id = await createProfile()
+    const bad = await send(h.app, `/api/profiles/${id}/watchlist`, 'POST', { ...SAVED, mediaType: 'film' })
+    assert.equal(bad.status, 400)
+    assert.ok((await bad.json() as ApiError).fields?.mediaType)
+    assert.equal((await send(h.app, `/api/profiles/${id}/watchlist/movie/999`, 'PATCH', { watched: true })).status, 404)
+    assert.equal((await h.app.request(`/api/profiles/${'x'.repeat(22)}/watchlist`)).status, 404)
+  })
+
+  it('flags services a title arrives on or leaves since the last check', async () => {
+    const id = await createProfile([8, 9])
+    await send(h.app, `/api/profiles/${id}/watchlist`, 'POST', SAVED)
+
+    // First check is the baseline: nothing is flagged
+    h.tmdb.override({ path: '/movie/101/watch/providers', body: providers([8, 'Netflix'], [15, 'Hulu']) })
+    let [item] = await list(id)
+    assert.deepEqual(item.availability.providers.map(p => p.provider_id), [8])
+    assert.deepEqual(item.availability.arriving, [])
+    assert.deepEqual(item.availability.leaving, [])
+
+    h.tmdb.reset()
+    h.tmdb.override({ path: '/movie/101/watch/providers', body: providers([9, 'Amazon Prime Video'], [15, 'Hulu']) })
+    ;[item] = await list(id)
+    assert.deepEqual(item.availability.arriving.map(p => p.provider_name), ['Amazon Prime Video'])
+    assert.deepEqual(item.availability.leaving.map(p => p.provider_name), ['Netflix'])
+    assert.ok(item.availability.changedAt)
+
+    // Flags stay until something changes again, and survive a failed check
+    ;[item] = await list(id)
+    assert.deepEqual(item.availability.leaving.map(p => p.provider_name), ['Netflix'])
+    h.tmdb.fail('/movie/101/watch/providers')
+    ;[item] = await list(id)
+    assert.deepEqual(item.availability.arriving.map(p => p.provider_name), ['Amazon Prime Video'])
+  })
+
+  it('counts free and ad-supported services like the cards do', async () => {
+    const id = await createProfile()
+    await send(h.app, `/api/profiles/${id}/watchlist`, 'POST', SAVED)
+    h.tmdb.override({ path: '/movie/101/watch/providers', body: providers([8, 'Netflix']) })
+    await list(id)
+
+    const body = providers([8, 'Netflix'])
+    Object.assign(body.results.US, {
+      ads: [{ provider_id: 73, provider_name: 'Tubi', logo_path: '/logo73.png', display_priority: 5 }],
+      rent: [{ provider_id: 2, provider_name: 'Apple TV', logo_path: '/logo2.png', display_priority: 6 }],
+    })
+    h.tmdb.override({ path: '/movie/101/watch/providers', body })
+    const [item] = await list(id)
+    assert.deepEqual(item.availability.arriving.map(p => p.provider_name), ['Tubi'])
+  })
+
+  it('starts a new baseline when the services change', async () => {
+    const id = await createProfile([8])
+    await send(h.app, `/api/profiles/${id}/watchlist`, 'POST', SAVED)
+    h.tmdb.override({ path: '/movie/101/watch/providers', body: providers([8, 'Netflix']) })
+    await list(id)
+
+    await send(h.app, `/api/profiles/${id}`, 'PATCH', { providerIds: [15] })
+    const [item] = await list(id)
+    assert.deepEqual(item.availability.providers, [])
+    assert.deepEqual(item.availability.leaving, [])
+  })
+
+  it('excludes watched titles from recommendations', async () => {
+    const id = await createProfile()
+    await send(h.app, `/api/profiles/${id}/watchlist`, 'POST', SAVED)
+    await send(h.app, `/api/profiles/${id}/watchlist/movie/101`, 'PATCH', { watched: true })
+
+    // A small pool, so 101 would be in the prompt if it weren't excluded
+    h.tmdb.override({ path: '/discover/movie', body: { results: [101, 102, 103].map(id => ({ id, title: `Movie ${id}` })) } })
+    const request: RecommendRequest = { country: 'US', mediaType: 'movie', profileId: id }
+    await readEvents(await send(h.app, '/api/recommend', 'POST', request))
+    const selection = h.llm.requests.find(r => r.model === 'fake-selection')!
+    assert.deepEqual(poolFromPrompt(promptText(selection)).sort(), ['Movie 102', 'Movie 103'])
+    // Watched isn't a verdict, so it stays out of the feedback lines
+    assert.doesNotMatch(promptText(selection), /ENJOYED|did NOT enjoy/)
+  })
+})
@@ -0,0 +1,410 @@
+import { z } from 'zod'
+
+// ── Request/response contract ──────────────────────────────────────────────
+// Validated on the server, imported as types on the client. Change a schema
+// here and both sides fail to compile until they agree again.
+
+export const LIMITS = {
+  providerIds: 50,
+  tags: 20,
+  tagLength: 40,
+  description: 500,
+  feedback: 100,
+  titleLength: 200,
+  languages: 10,
+  watchlist: 200,
+  roomSize: 8,
+  nameLength: 30,
+} as const
+
+export const MediaTypeSchema = z.enum(['movie', 'tv'])
+export type MediaType = z.infer<typeof MediaTypeSchema>
+
+// What a search asks for: one media type, or "either" to blend both in one pool
+export const MediaChoiceSchema = z.enum(['movie', 'tv', 'either'])
+export type MediaChoice = z.infer<typeof MediaChoiceSchema>
+
+export const CountrySchema = z.string().regex(/^[A-Z]{2}$/, 'Must be a two-letter ISO 3166-1 country code')
+
+// Language + region, the form TMDB's `language` param takes (e.g. "de-DE").
+// Drives localized titles/overviews, the write-up language and the UI catalog.
+export const LocaleSchema = z.string().regex(/^[a-z]{2}-[A-Z]{2}$/, 'Must be a locale like en-US')
+export const DEFAULT_LOCALE = 'en-US'
+
+// Profiles are anonymous: the random id is the only credential, so treat it like a token.
+export const ProfileIdSchema = z.string().regex(/^[A-Za-z0-9_-]{22}$/, 'Invalid profile id')
+
+// Watch party rooms are joined by a short code read out across the sofa;
+// each participant then acts with their own random id, kept like a profile id.
+export const RoomCodeSchema = z.string().trim().toUpperCase().regex(/^[A-HJ-NP-Z2-9]{5}$/, 'Invalid room code')
+export const ParticipantIdSchema = z.string().regex(/^[A-Za-z0-9_-]{22}$/, 'Invalid participant id')
+export const RoomTicketSchema = z.object({ code: RoomCodeSchema, participantId: ParticipantIdSchema })
+export type RoomTicket = z.infer<typeof RoomTicketSchema>
+
+const tags = z.array(z.string().trim().min(1).max(LIMITS.tagLength)).max(LIMITS.tags)
+const titleText = z.string().trim().min(1).max(LIMITS.titleLength)
+const yearText = z.string().regex(/^(\d{4})?$/, 'Must be a four-digit year')
+
+// A liked/disliked title, as taken from a pick. The id is what exclusion runs
+// on; title and year only make the prompt unambiguous.
+export const FeedbackTitleSchema = z.object({
+  id: z.number().int().positive(),
+  mediaType: MediaTypeSchema,
+  title: titleText,
+  year: yearText.default(''),
+})
+export type FeedbackTitle = z.infer<typeof FeedbackTitleSchema>
+
+// Older clients send bare title strings. They still parse, with no id — the
+// server falls back to matching those by title.
+const feedbackTitles = z.array(
+  z.union([
+    FeedbackTitleSchema,
+    titleText.transform(title => ({ id: null, mediaType: null, title, year: '' })),
+  ]),
+).max(LIMITS.feedback)
+export type FeedbackEntry = z.output<typeof feedbackTitles>[number]
+
+// Hard filters, mapped straight onto TMDB discover params. Ranges are inclusive
+// and either end may be left open. Runtime is per episode for TV.
+export const FiltersSchema = z.object({
+  yearFrom: z.number().int().min(1900).max(2100).optional(),
+  yearTo: z.number().int().min(1900).max(2100).optional(),
+  runtimeMin: z.number().int().min(0).max(600).optional(),
+  runtimeMax: z.number().int().min(0).max(600).optional(),
+  // ISO 639-1 codes of the original language; any of them matches
+  languages: z.array(z.string().regex(/^[a-z]{2}$/, 'Must be a two-letter ISO 639-1 language code'))
+    .max(LIMITS.languages).default([]),
+  minRating: z.number().min(0).max(10).optional(),
+  minVotes: z.number().int().min(0).max(100_000).optional(),
+}).superRefine((f, ctx) => {
+  if (f.yearFrom != null && f.yearTo != null && f.yearFrom > f.yearTo) {
+    ctx.addIssue({ code: 'custom', path: ['yearTo'], message: 'Must not be before yearFrom' })
+  }
+  if (f.runtimeMin != null && f.runtimeMax != null && f.runtimeMin > f.runtimeMax) {
+    ctx.addIssue({ code: 'custom', path: ['runtimeMax'], message: 'Must not be below runtimeMin' })
+  }
+})
+export type Filters = z.input<typeof FiltersSchema>
+export type ParsedFilters = z.output<typeof FiltersSchema>
+
+export const RecommendRequestSchema = z.object({
+  country: CountrySchema.default('US'),
+  locale: LocaleSchema.default(DEFAULT_LOCALE),
+  providerIds: z.array(z.number().int().positive()).max(LIMITS.providerIds).default([]),
+  mediaType: MediaChoiceSchema.default('movie'),
+  // TMDB genre names as listed by /api/genres, in `locale` or English
+  genres: tags.default([]),
+  moods: tags.default([]),
+  styles: tags.default([]),
+  description: z.string().max(LIMITS.description).default(''),
+  filters: FiltersSchema.default({}),
+  liked: feedbackTitles.default([]),
+  disliked: feedbackTitles.default([]),
+  // "More like this": TMDB's recommendations for this title lead the pool
+  moreLike: FeedbackTitleSchema.optional(),
+  // Stored likes/dislikes of this profile are merged in server-side
+  profileId: ProfileIdSchema.optional(),
+  // Set by a watch party's host: the room's merged preferences replace
+  // everything else in the request
+  room: RoomTicketSchema.optional(),
+})
+// What the client sends (defaults optional) vs. what the server works with
+export type RecommendRequest = z.input<typeof RecommendRequestSchema>
+export type ParsedRecommendRequest = z.output<typeof RecommendRequestSchema>
+
+export const ProviderSchema = z.object({
+  provider_id: z.number().int(),
+  provider_name: z.string(),
+  logo_path: z.string(),
+  display_priority: z.number(),
+})
+export type Provider = z.infer<typeof ProviderSchema>
+
+// ── Catalog lists ──────────────────────────────────────────────────────────
+// Sourced from TMDB and named in the requested locale. /api/genres answers
+// with plain genre names — ids differ between movies and TV, so the server
+// resolves names per media type when it searches.
+export const RegionSchema = z.object({
+  code: z.string(),
+  name: z.string(),
+})
+export type Region = z.infer<typeof RegionSchema>
+
+export const RegionsQuerySchema = z.object({
+  locale: LocaleSchema.default(DEFAULT_LOCALE),
+})
+
+export const GenresQuerySchema = z.object({
+  mediaType: MediaChoiceSchema.default('movie'),
+  locale: LocaleSchema.default(DEFAULT_LOCALE),
+})
+
+export const RecPickSchema = z.object({
+  id: z.number().int(),
+  mediaType: MediaTypeSchema,
+  title: z.string(),
+  year: z.string(),
+  posterPath: z.string().nullable(),
+  vibe: z.string(),
+  // Services in the request's country (and selection) that stream it, plus
+  // TMDB's watch page. Missing on results shared before picks were verified.
+  providers: z.array(ProviderSchema).optional(),
+  watchLink: z.string().nullable().optional(),
+})
+export type RecPick = z.infer<typeof RecPickSchema>
+
+// A finished recommendation: picks plus their write-ups, index-aligned
+export const RecommendationResultSchema = z.object({
+  picks: z.array(RecPickSchema),
+  descriptions: z.array(z.string()),
+})
+export type RecommendationResult = z.infer<typeof RecommendationResultSchema>
+
+// ── Single picks ───────────────────────────────────────────────────────────
+// A finished search's pool is kept for a while under the id from its `done`
+// event, so one card can be swapped without re-running the search.
+export const SessionIdSchema = z.string().regex(/^[A-Za-z0-9_-]{12}$/, 'Invalid session id')
+
+export const PickRequestSchema = z.object({
+  sessionId: SessionIdSchema,
+  // The cards on screen; the replacement is none of these
+  exclude: z.array(z.object({ id: z.number().int().positive(), mediaType: MediaTypeSchema })).max(10).default([]),
+})
+export type PickRequest = z.input<typeof PickRequestSchema>
+
+export const PickResponseSchema = z.object({
+  pick: RecPickSchema,
+  description: z.string(),
+})
+export type PickResponse = z.infer<typeof PickResponseSchema>
+
+// Body of every non-2xx JSON response. `fields` maps dotted paths
+// (e.g. "liked.3") to messages on validation failures.
+export interface ApiError {
+  error: string
+  fields?: Record<string, string>
+}
+
+export function fieldErrors(error: z.ZodError): Record<string, string> {
+  const fields: Record<string, string> = {}
+  for (const issue of error.issues) {
+    const path = issue.path.join('.') || '(body)'
+    fields[path] ??= issue.message
+  }
+  return fields
+}
+
+export const TitleParamsSchema = z.object({
+  mediaType: MediaTypeSchema,
+  id: z.coerce.number().int().positive(),
+  country: CountrySchema.default('US'),
+  locale: LocaleSchema.default(DEFAULT_LOCALE),
+})
+
+export const CastMemberSchema = z.object({
+  name: z.string(),
+  character: z.string(),
+  profilePath: z.string().nullable(),
+})
+export type CastMember = z.infer<typeof CastMemberSchema>
+
+export const TrailerSchema = z.object({
+  key: z.string(),
+  name: z.string(),
+})
+export type Trailer = z.infer<typeof TrailerSchema>
+
+// Where a title can be watched in one country, as reported by TMDB/JustWatch
+export const AvailabilitySchema = z.object({
+  link: z.string().nullable(),
+  flatrate: z.array(ProviderSchema),
+  rent: z.array(ProviderSchema),
+  buy: z.array(ProviderSchema),
+})
+export type Availability = z.infer<typeof AvailabilitySchema>
+
+export const TitleDetailsSchema = z.object({
+  id: z.number().int(),
+  mediaType: MediaTypeSchema,
+  title: z.string(),
+  year: z.string(),
+  overview: z.string(),
+  posterPath: z.string().nullable(),
+  genres: z.array(z.string()),
+  // Minutes; for TV the typical episode length
+  runtime: z.number().nullable(),
+  seasons: z.number().nullable(),
+  episodes: z.number().nullable(),
+  cast: z.array(CastMemberSchema),
+  // Directors for movies, creators for TV
+  makers: z.array(z.string()),
+  certification: z.string().nullable(),
+  trailers: z.array(TrailerSchema),
+  availability: AvailabilitySchema,
+})
+export type TitleDetails = z.infer<typeof TitleDetailsSchema>
+
+// ── Profiles ───────────────────────────────────────────────────────────────
+export const ProfileSettingsSchema = z.object({
+  country: CountrySchema,
+  locale: LocaleSchema,
+  providerIds: z.array(z.number().int().positive()).max(LIMITS.providerIds),
+})
+export type ProfileSettings = z.infer<typeof ProfileSettingsSchema>
+
+export const ProfileSchema = ProfileSettingsSchema.extend({
+  id: ProfileIdSchema,
+  createdAt: z.number(),
+})
+export type Profile = z.infer<typeof ProfileSchema>
+
+// "clear" withdraws an earlier like/dislike
+export const FeedbackVerdictSchema = z.enum(['like', 'dislike', 'clear'])
+export type FeedbackVerdict = z.infer<typeof FeedbackVerdictSchema>
+
+export const FeedbackInputSchema = z.object({
+  title: titleText,
+  tmdbId: z.number().int().positive().nullable().default(null),
+  mediaType: MediaTypeSchema.nullable().default(null),
+  year: yearText.nullable().default(null),
+  verdict: FeedbackVerdictSchema,
+})
+export type FeedbackInput = z.input<typeof FeedbackInputSchema>
+
+export const FeedbackEventSchema = FeedbackInputSchema.extend({
+  id: z.number().int(),
+  createdAt: z.number(),
+})
+export type FeedbackEvent = z.infer<typeof FeedbackEventSchema>
+
+export const HistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+})
+
+// ── Watchlist ──────────────────────────────────────────────────────────────
+// Saved per profile from a pick. Watched items stay listed and are excluded
+// from recommendations like liked/disliked titles.
+export const WatchlistInputSchema = z.object({
+  id: z.number().int().positive(),
+  mediaType: MediaTypeSchema,
+  title: titleText,
+  year: yearText.default(''),
+  posterPath: z.string().max(LIMITS.titleLength).nullable().default(null),
+})
+export type WatchlistInput = z.input<typeof WatchlistInputSchema>
+
+export const WatchlistKeySchema = z.object({
+  mediaType: MediaTypeSchema,
+  tmdbId: z.coerce.number().int().positive(),
+})
+
+export const WatchlistUpdateSchema = z.object({
+  watched: z.boolean(),
+})
+
+// Streaming availability on the profile's selected services (any subscription
+// service when none are selected). `arriving`/`leaving` describe the most
+// recent change seen between two checks.
+export const WatchlistAvailabilitySchema = z.object({
+  providers: z.array(ProviderSchema),
+  arriving: z.array(ProviderSchema),
+  leaving: z.array(ProviderSchema),
+  changedAt: z.number().nullable(),
+  checkedAt: z.number().nullable(),
+})
+export type WatchlistAvailability = z.infer<typeof WatchlistAvailabilitySchema>
+
+export const WatchlistItemSchema = WatchlistInputSchema.extend({
+  addedAt: z.number(),
+  watchedAt: z.number().nullable(),
+  availability: WatchlistAvailabilitySchema,
+})
+export type WatchlistItem = z.infer<typeof WatchlistItemSchema>
+
+// ── Watch party ────────────────────────────────────────────────────────────
+const participantName = z.string().trim().min(1).max(LIMITS.nameLength)
+
+// The host fixes where and what the group is watching
+export const RoomCreateSchema = z.object({
+  name: participantName,
+  country: CountrySchema,
+  locale: LocaleSchema.default(DEFAULT_LOCALE),
+  mediaType: MediaChoiceSchema.default('movie'),
+})
+export type RoomCreate = z.input<typeof RoomCreateSchema>
+
+export const RoomJoinSchema = z.object({ name: participantName })
+
+// One person's side of the group search. Dislikes stored on their profile are
+// added server-side, like in a solo search.
+export const RoomPreferencesSchema = RecommendRequestSchema.pick({
+  providerIds: true,
+  genres: true,
+  moods: true,
+  styles: true,
+  description: true,
+  disliked: true,
+  profileId: true,
+})
+export type RoomPreferences = z.input<typeof RoomPreferencesSchema>
+export type ParsedRoomPreferences = z.output<typeof RoomPreferencesSchema>
+
+// A pick index into the room's result; null takes the vote back
+export const RoomVoteSchema = z.object({ index: z.number().int().min(0).nullable() })
+
+// open: collecting preferences · picking: the host's search is running · voting: picks are in
+export const RoomStatusSchema = z.enum(['open', 'picking', 'voting'])
+export type RoomStatus = z.infer<typeof RoomStatusSchema>
+
+export const RoomParticipantSchema = z.object({
+  name: z.string(),
+  isHost: z.boolean(),
+  // Has sent their preferences
+  ready: z.boolean(),
+})
+export type RoomParticipant = z.infer<typeof RoomParticipantSchema>
+
+export const RoomSchema = z.object({
+  code: RoomCodeSchema,
+  country: CountrySchema,
+  locale: LocaleSchema,
+  mediaType: MediaChoiceSchema,
+  status: RoomStatusSchema,
+  participants: z.array(RoomParticipantSchema),
+  result: RecommendationResultSchema.nullable(),
+  // Who voted for each pick, index-aligned with result.picks
+  votes: z.array(z.array(z.string())),
+  // The requesting participant, when their id was given
+  you: RoomParticipantSchema.extend({ vote: z.number().int().nullable() }).nullable(),
+  updatedAt: z.number(),
+})
+export type Room = z.infer<typeof RoomSchema>
+
+// Returned on create and join; the id is needed for every later change
+export const RoomSessionSchema = z.object({ participantId: ParticipantIdSchema, room: RoomSchema })
+export type RoomSession = z.infer<typeof RoomSessionSchema>
+
+// ── Shared results ─────────────────────────────────────────────────────────
+export const ShareIdSchema = z.string().regex(/^[A-Za-z0-9_-]{8}$/, 'Invalid share id')
+
+// The preferences that produced a shared result. Feedback and the profile id
+// are deliberately left out — a permalink shouldn't leak someone's history.
+export const SharePreferencesSchema = RecommendRequestSchema.pick({
+  country: true,
+  providerIds: true,
+  mediaType: true,
+  genres: true,
+  moods: true,
+  styles: true,
+  description: true,
+})
+export type SharePreferences = z.infer<typeof SharePreferencesSchema>
+
+export const SharedRecommendationSchema = z.object({
+  id: ShareIdSchema,
+  createdAt: z.number(),
+  preferences: SharePreferencesSchema,
+  result: RecommendationResultSchema,
+})
+export type SharedRecommendation = z.infer<typeof SharedRecommendationSchema>
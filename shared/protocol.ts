@@ -0,0 +1,54 @@
+import type { RecPick } from './contract.js'
+
+// ── /api/recommend stream protocol ─────────────────────────────────────────
+// The response body is NDJSON: one RecommendEvent per line. Bump
+// PROTOCOL_VERSION whenever an event changes incompatibly so stale clients can
+// bail out instead of rendering garbage. New optional fields don't count.
+export const PROTOCOL_VERSION = 1
+
+export const RECOMMEND_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8'
+
+export type RecommendPhase = 'searching' | 'found' | 'selecting' | 'writing'
+
+export type RecommendEvent =
+  | { type: 'start'; version: number }
+  | { type: 'phase'; phase: Exclude<RecommendPhase, 'found'> }
+  // count is the number of candidates left once seen titles are filtered out
+  | { type: 'phase'; phase: 'found'; count: number }
+  | { type: 'picks'; picks: RecPick[] }
+  // Appends text to the write-up of picks[index]
+  | { type: 'delta'; index: number; text: string }
+  | { type: 'error'; message: string }
+  // A model stage failed or timed out and a deterministic stand-in took over:
+  // picks from the local ranking, or write-ups from TMDB overviews
+  | { type: 'fallback'; stage: 'selection' | 'writing' }
+  // shareId is set when the result was saved and can be opened at /s/:shareId;
+  // sessionId lets POST /api/recommend/pick swap single cards from the same pool
+  | { type: 'done'; shareId?: string; sessionId?: string }
+
+export function encodeEvent(event: RecommendEvent): string {
+  return JSON.stringify(event) + '\n'
+}
+
+// Feeds raw chunks in, calls onEvent for every complete line. Malformed lines
+// are skipped rather than thrown so one bad line can't kill the whole stream;
+// errors thrown by onEvent itself still reach the caller.
+export function createEventDecoder(onEvent: (event: RecommendEvent) => void) {
+  let buffer = ''
+  return (chunk: string) => {
+    buffer += chunk
+    let nl: number
+    while ((nl = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, nl).trim()
+      buffer = buffer.slice(nl + 1)
+      if (!line) continue
+      let event: RecommendEvent
+      try {
+        event = JSON.parse(line) as RecommendEvent
+      } catch {
+        continue
+      }
+      onEvent(event)
+    }
+  }
+}